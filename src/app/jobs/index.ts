@@ -0,0 +1,61 @@
+import config from '../../config';
+import { BookingJobs } from '../modules/Booking/Booking.jobs';
+import { WaitlistServices } from '../modules/Waitlist/Waitlist.service';
+import { ScheduleServices } from '../modules/Schedule/Schedule.service';
+import { BoostServices } from '../modules/Boost/Boost.service';
+
+// In-process job runner: every job runs on a fixed interval and never
+// overlaps itself, so a slow run simply delays the next one
+type TJob = {
+  name: string;
+  run: () => Promise<unknown>;
+};
+
+const jobs: TJob[] = [
+  { name: 'session-reminders', run: BookingJobs.sendSessionReminders },
+  {
+    name: 'sessions-needing-completion',
+    run: BookingJobs.flagSessionsNeedingCompletion,
+  },
+  { name: 'expired-booking-holds', run: BookingJobs.releaseExpiredHolds },
+  {
+    name: 'waitlist-offer-expiry',
+    run: () => WaitlistServices.expireStaleOffers(),
+  },
+  {
+    name: 'external-calendar-sync',
+    run: ScheduleServices.syncDueExternalCalendars,
+  },
+  { name: 'boost-expiry', run: BoostServices.expireBoosts },
+];
+
+const running = new Set<string>();
+let timer: NodeJS.Timeout | undefined;
+
+const runJob = async (job: TJob) => {
+  if (running.has(job.name)) return;
+  running.add(job.name);
+  try {
+    await job.run();
+  } catch (error) {
+    console.error(`❌ Job "${job.name}" failed:`, error);
+  } finally {
+    running.delete(job.name);
+  }
+};
+
+const tick = () => Promise.all(jobs.map(runJob));
+
+export const startJobs = () => {
+  if (!config.jobs.enabled || timer) return;
+
+  const intervalMs = Math.max(config.jobs.interval_seconds, 10) * 1000;
+  timer = setInterval(tick, intervalMs);
+  tick();
+  console.log(`⏱️ Background jobs running every ${intervalMs / 1000}s`);
+};
+
+export const stopJobs = () => {
+  if (timer) clearInterval(timer);
+  timer = undefined;
+};
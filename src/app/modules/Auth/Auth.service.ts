@@ -20,6 +20,8 @@ import emailSender from './../../utils/sendMail';
 // } from '../../utils/uploadToDigitalOceanAWS';
 import { toStringArray } from './Auth.constants';
 import { uploadToCloudinary } from '../../utils/uploadToCloudinary';
+import { toGeoPoint } from '../Coach/Coach.constant';
+import { CoachServices } from '../Coach/Coach.service';
 
 // ======================== LOGIN WITH OTP ========================
 const loginWithOtpFromDB = async (
@@ -254,6 +256,10 @@ const registerCoachIntoDB = async (
           // address: payload.address ?? undefined,
           latitude: payload.latitude ? Number(payload.latitude) : undefined,
           longitude: payload.longitude ? Number(payload.longitude) : undefined,
+          geoLocation: toGeoPoint(
+            payload.latitude ? Number(payload.latitude) : null,
+            payload.longitude ? Number(payload.longitude) : null,
+          ),
           specialtyId: payload.specialtyId,
           // gender: payload.gender,
         },
@@ -269,6 +275,8 @@ const registerCoachIntoDB = async (
     );
   }
 
+  await CoachServices.refreshSearchTerms({ email: payload.email });
+
   return {
     message:
       'Please check your email for OTP and verify your account. Your coach account will be approved by admin.',
@@ -0,0 +1,174 @@
+import { BookingStatus, Prisma, SessionMode } from '@prisma/client';
+import {
+  formatDateInZone,
+  formatTimeInZone,
+  toZonedDateKey,
+} from '../../utils/timezone';
+import {
+  createMeetingJoinLink,
+  TMeetingParticipant,
+  TMeetingRoom,
+} from '../../utils/meeting';
+
+// How long a slot stays reserved while the athlete is on the Stripe checkout page.
+// Counted from right before the checkout is created; Stripe does not allow a
+// checkout session to expire sooner than 30 minutes, so this leaves a margin.
+export const BOOKING_HOLD_MINUTES = 35;
+
+// Holds still open this long after they expired are released by a job, in
+// case Stripe's expiry webhook never arrived. The delay leaves room for the
+// webhook of a payment made just before the checkout closed.
+export const HOLD_RELEASE_GRACE_MINUTES = 10;
+
+// Longest weekly series an athlete can book in one go
+export const MIN_SERIES_WEEKS = 2;
+export const MAX_SERIES_WEEKS = 12;
+
+export const SERIES_CANCEL_SCOPES = ['SINGLE', 'FUTURE', 'ALL'] as const;
+export type TSeriesCancelScope = (typeof SERIES_CANCEL_SCOPES)[number];
+
+// Check-in is possible from shortly before the session until a while after it ends
+export const CHECK_IN_OPENS_MINUTES_BEFORE = 30;
+export const CHECK_IN_CLOSES_MINUTES_AFTER = 60;
+// Wrong codes allowed before the athlete has to show a fresh one
+export const CHECK_IN_MAX_ATTEMPTS = 5;
+// How far the coach may be from the booked location when checking in
+export const CHECK_IN_MAX_DISTANCE_METERS = 500;
+
+// Online sessions: the join link is handed out from the last reminder
+// (an hour before) until the session ends
+export const MEETING_LINK_OPENS_MINUTES_BEFORE = 60;
+
+// Calendar feeds list sessions from this many days back onwards
+export const CALENDAR_FEED_PAST_DAYS = 90;
+
+// Statuses that occupy a time slot
+export const ACTIVE_BOOKING_STATUSES: BookingStatus[] = [
+  BookingStatus.CONFIRMED,
+  BookingStatus.RESCHEDULE_REQUEST,
+  BookingStatus.RESCHEDULED_ACCEPTED,
+];
+
+// Bookings that currently hold a seat: active ones plus unexpired checkout holds
+export const seatHoldingBookingWhere = (): Prisma.BookingWhereInput => ({
+  OR: [
+    { status: { in: ACTIVE_BOOKING_STATUSES } },
+    {
+      status: BookingStatus.PENDING_PAYMENT,
+      holdExpiresAt: { gt: new Date() },
+    },
+  ],
+});
+
+type TCancellationRule = {
+  minHoursBefore: number;
+  refundPercent: number;
+};
+
+// Used when the coach has not configured a policy:
+// full refund >24h before, 50% >2h before, nothing after that
+export const DEFAULT_CANCELLATION_POLICY: TCancellationRule[] = [
+  { minHoursBefore: 24, refundPercent: 100 },
+  { minHoursBefore: 2, refundPercent: 50 },
+  { minHoursBefore: 0, refundPercent: 0 },
+];
+
+// Picks the refund for a cancellation made `now` against a session starting at `sessionStart`.
+// Coach-initiated cancellations always refund in full.
+export const evaluateCancellationPolicy = (
+  policy: TCancellationRule[] | null | undefined,
+  sessionStart: Date,
+  cancelledByCoach: boolean,
+  now: Date = new Date(),
+) => {
+  const hoursBefore =
+    (sessionStart.getTime() - now.getTime()) / (1000 * 60 * 60);
+
+  if (cancelledByCoach) {
+    return { hoursBefore, refundPercent: 100, rule: null };
+  }
+
+  const rules = [
+    ...(policy && policy.length ? policy : DEFAULT_CANCELLATION_POLICY),
+  ].sort((a, b) => b.minHoursBefore - a.minHoursBefore);
+
+  const rule = rules.find(r => hoursBefore >= r.minHoursBefore) ?? null;
+
+  return { hoursBefore, refundPercent: rule?.refundPercent ?? 0, rule };
+};
+
+// Booking dates are the coach's local calendar date ("2024-02-20"); full
+// timestamps are first mapped onto a date in the coach's zone
+export const isSameSlotDate = (
+  requested: string,
+  slotDate: Date,
+  timeZone: string,
+) => {
+  const requestedKey = /^\d{4}-\d{2}-\d{2}$/.test(requested)
+    ? requested
+    : toZonedDateKey(new Date(requested), timeZone);
+
+  return requestedKey === slotDate.toISOString().split('T')[0];
+};
+
+// "Tue, Mar 4, 2025 at 10:00 AM" in the reader's zone, for notifications
+export const describeSessionTime = (date: Date, timeZone: string) =>
+  `${formatDateInZone(date, timeZone)} at ${formatTimeInZone(date, timeZone)}`;
+
+// Great-circle distance between two coordinates, in meters
+export const distanceInMeters = (
+  from: { lat: number; lon: number },
+  to: { lat: number; lon: number },
+) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) *
+      Math.cos(toRadians(to.lat)) *
+      Math.sin(dLon / 2) ** 2;
+
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// Join details of an online session for one participant. The link itself
+// is only given out inside the join window; null for in-person sessions.
+export const getMeetingAccess = (
+  booking: {
+    sessionMode: SessionMode;
+    meetingRoom: TMeetingRoom | null;
+    bookingDate: Date;
+    timeSlot: { startTime: Date; endTime: Date } | null;
+  },
+  participant: TMeetingParticipant,
+  now: Date = new Date(),
+) => {
+  if (booking.sessionMode !== SessionMode.ONLINE || !booking.meetingRoom) {
+    return null;
+  }
+
+  const startsAt = booking.timeSlot?.startTime ?? booking.bookingDate;
+  const endsAt =
+    booking.timeSlot?.endTime ?? new Date(startsAt.getTime() + 60 * 60 * 1000);
+  const opensAt = new Date(
+    startsAt.getTime() - MEETING_LINK_OPENS_MINUTES_BEFORE * 60 * 1000,
+  );
+  const isOpen = now >= opensAt && now < endsAt;
+
+  // A misconfigured provider leaves the link out instead of failing the
+  // booking views and reminders it is part of
+  let link: { joinUrl: string | null; token: string | null } = {
+    joinUrl: null,
+    token: null,
+  };
+  if (isOpen) {
+    try {
+      link = createMeetingJoinLink(booking.meetingRoom, participant, endsAt);
+    } catch (error) {
+      console.log('❌ Meeting Link Error:', error);
+    }
+  }
+
+  return { opensAt, closesAt: endsAt, isOpen, ...link };
+};
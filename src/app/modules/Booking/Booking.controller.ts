@@ -80,7 +80,12 @@ const cancelBooking = catchAsync(async (req: Request, res: Response) => {
   const { email, role } = req.user;
   const { bookingId } = req.params;
 
-  const result = await BookingServices.cancelBooking(email, role, bookingId);
+  const result = await BookingServices.cancelBooking(
+    email,
+    role,
+    bookingId,
+    req.body?.reason,
+  );
 
   sendResponse(res, {
     statusCode: httpStatus.OK,
@@ -90,6 +95,26 @@ const cancelBooking = catchAsync(async (req: Request, res: Response) => {
   });
 });
 
+const getCancellationPreview = catchAsync(
+  async (req: Request, res: Response) => {
+    const { email, role } = req.user;
+    const { bookingId } = req.params;
+
+    const result = await BookingServices.getCancellationPreview(
+      email,
+      role,
+      bookingId,
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      success: true,
+      message: 'Cancellation refund preview retrieved',
+      data: result,
+    });
+  },
+);
+
 const finishBooking = catchAsync(async (req: Request, res: Response) => {
   const { email, role } = req.user;
   const { bookingId } = req.params;
@@ -104,6 +129,93 @@ const finishBooking = catchAsync(async (req: Request, res: Response) => {
   });
 });
 
+const markNoShow = catchAsync(async (req: Request, res: Response) => {
+  const { email, role } = req.user;
+  const { bookingId } = req.params;
+
+  const result = await BookingServices.markNoShow(email, role, bookingId);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Booking marked as no-show',
+    data: result,
+  });
+});
+
+const getCheckInCode = catchAsync(async (req: Request, res: Response) => {
+  const result = await BookingServices.getCheckInCode(
+    req.user.email,
+    req.params.bookingId,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Check-in code retrieved successfully',
+    data: result,
+  });
+});
+
+const checkInBooking = catchAsync(async (req: Request, res: Response) => {
+  const result = await BookingServices.checkInBooking(
+    req.user.email,
+    req.params.bookingId,
+    req.body,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Session checked in successfully',
+    data: result,
+  });
+});
+
+const getBookingTimeline = catchAsync(async (req: Request, res: Response) => {
+  const { email, role } = req.user;
+  const result = await BookingServices.getBookingTimeline(
+    email,
+    role,
+    req.params.bookingId,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Booking timeline retrieved successfully',
+    data: result,
+  });
+});
+
+const getMyCalendarFeed = catchAsync(async (req: Request, res: Response) => {
+  const result = await BookingServices.getMyCalendarFeed(req.user.id);
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Calendar feed retrieved successfully',
+    data: result,
+  });
+});
+
+const resetMyCalendarFeed = catchAsync(async (req: Request, res: Response) => {
+  const result = await BookingServices.resetMyCalendarFeed(req.user.id);
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Calendar feed link reset successfully',
+    data: result,
+  });
+});
+
+// Served raw to calendar apps, not wrapped in the JSON envelope
+const getCalendarFeed = catchAsync(async (req: Request, res: Response) => {
+  const ics = await BookingServices.getCalendarFeed(req.params.token);
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', 'inline; filename="sessions.ics"');
+  res.status(httpStatus.OK).send(ics);
+});
+
 const getPendingRescheduleRequests = catchAsync(
   async (req: Request, res: Response) => {
     const { email, role } = req.user;
@@ -120,6 +232,49 @@ const getPendingRescheduleRequests = catchAsync(
     });
   },
 );
+const createSeries = catchAsync(async (req: Request, res: Response) => {
+  const result = await BookingServices.createSeries(req);
+  sendResponse(res, {
+    statusCode: result.success ? httpStatus.CREATED : httpStatus.CONFLICT,
+    success: result.success,
+    message: result.message,
+    data: result,
+  });
+});
+
+const getSeries = catchAsync(async (req: Request, res: Response) => {
+  const { email, role } = req.user;
+  const result = await BookingServices.getSeries(
+    email,
+    role,
+    req.params.seriesId,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Booking series retrieved successfully',
+    data: result,
+  });
+});
+
+const cancelSeries = catchAsync(async (req: Request, res: Response) => {
+  const { email, role } = req.user;
+  const result = await BookingServices.cancelSeries(
+    email,
+    role,
+    req.params.seriesId,
+    req.body,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: `${result.cancelled.length} session(s) of the series cancelled`,
+    data: result,
+  });
+});
+
 export const BookingController = {
   createIntoDb,
   getAllBooking,
@@ -129,5 +284,16 @@ export const BookingController = {
   respondToReschedule,
   requestReschedule,
   cancelBooking,
+  getCancellationPreview,
   finishBooking,
+  markNoShow,
+  getCheckInCode,
+  checkInBooking,
+  getBookingTimeline,
+  getMyCalendarFeed,
+  resetMyCalendarFeed,
+  getCalendarFeed,
+  createSeries,
+  getSeries,
+  cancelSeries,
 };
@@ -0,0 +1,229 @@
+import { BookingStatus, PaymentStatus } from '@prisma/client';
+import { prisma } from '../../utils/prisma';
+import { createNotification } from '../../middlewares/notify';
+import { sendSingleNotificationUtils } from '../Notifications/Notification.service';
+import { resolveTimeZone } from '../../utils/timezone';
+import {
+  describeSessionTime,
+  getMeetingAccess,
+  HOLD_RELEASE_GRACE_MINUTES,
+} from './Booking.constants';
+import { BookingServices } from './Booking.service';
+
+// Sessions that will take place (reschedule requests are not confirmed yet)
+const UPCOMING_STATUSES: BookingStatus[] = [
+  BookingStatus.CONFIRMED,
+  BookingStatus.RESCHEDULED_ACCEPTED,
+];
+
+const JOB_BATCH_SIZE = 100;
+
+const partySelect = {
+  id: true,
+  fullName: true,
+  timezone: true,
+  user: { select: { id: true, fcmToken: true } },
+} as const;
+
+type TRecipient = { id: string; fcmToken: string | null };
+
+// Push through FCM when the user has a device; otherwise in-app only
+const notifyUser = async (
+  receiver: TRecipient,
+  senderId: string,
+  title: string,
+  body: string,
+) => {
+  try {
+    if (receiver.fcmToken) {
+      await sendSingleNotificationUtils({
+        userId: receiver.id,
+        senderId,
+        title,
+        body,
+      });
+    } else {
+      await createNotification({
+        receiverId: receiver.id,
+        senderId,
+        title,
+        body,
+      });
+    }
+  } catch (error) {
+    console.log('❌ Reminder Notification Error:', error);
+  }
+};
+
+// Online sessions: the join link once it is open, otherwise when it will be
+const describeMeeting = (
+  booking: Parameters<typeof getMeetingAccess>[0],
+  participant: Parameters<typeof getMeetingAccess>[1],
+) => {
+  const meeting = getMeetingAccess(booking, participant);
+  if (!meeting) return '';
+  if (meeting.joinUrl) return `. Join online: ${meeting.joinUrl}`;
+  return meeting.isOpen
+    ? '. It takes place online; join it from the app.'
+    : '. It takes place online; the join link is shared an hour before it starts.';
+};
+
+// Remind both parties of sessions starting within the window. The sent
+// marker is claimed before sending, so a reminder goes out at most once.
+const sendRemindersBetween = async (
+  reminder: 'reminder24hSentAt' | 'reminder1hSentAt',
+  leadTime: string,
+  from: Date,
+  to: Date,
+) => {
+  const bookings = await prisma.booking.findMany({
+    where: {
+      status: { in: UPCOMING_STATUSES },
+      bookingDate: { gt: from, lte: to },
+      [reminder]: null,
+    },
+    include: {
+      athlete: { select: partySelect },
+      coach: { select: partySelect },
+      timeSlot: { select: { startTime: true, endTime: true } },
+    },
+    take: JOB_BATCH_SIZE,
+  });
+
+  let sent = 0;
+  for (const booking of bookings) {
+    const { count } = await prisma.booking.updateMany({
+      where: { id: booking.id, [reminder]: null },
+      data: {
+        [reminder]: new Date(),
+        // A session booked at short notice skips the day-before reminder
+        ...(reminder === 'reminder1hSentAt' && {
+          reminder24hSentAt: booking.reminder24hSentAt ?? new Date(),
+        }),
+      },
+    });
+    if (!count) continue;
+
+    const { athlete, coach } = booking;
+    const coachTimeZone = resolveTimeZone(coach.timezone);
+    await notifyUser(
+      athlete.user,
+      coach.user.id,
+      'Session Reminder',
+      `Your session with ${coach.fullName} starts in ${leadTime}, on ${describeSessionTime(booking.bookingDate, resolveTimeZone(athlete.timezone, coachTimeZone))}${describeMeeting(booking, { id: athlete.id, name: athlete.fullName, isHost: false })}`,
+    );
+    await notifyUser(
+      coach.user,
+      athlete.user.id,
+      'Session Reminder',
+      `Your session with ${athlete.fullName} starts in ${leadTime}, on ${describeSessionTime(booking.bookingDate, coachTimeZone)}${describeMeeting(booking, { id: coach.id, name: coach.fullName, isHost: true })}`,
+    );
+    sent++;
+  }
+
+  return sent;
+};
+
+const sendSessionReminders = async () => {
+  const now = Date.now();
+  const inOneHour = new Date(now + 60 * 60 * 1000);
+
+  // Only sessions about a day away: one booked at shorter notice would
+  // otherwise be told it starts in 24 hours
+  const dayBefore = await sendRemindersBetween(
+    'reminder24hSentAt',
+    '24 hours',
+    new Date(now + 23 * 60 * 60 * 1000),
+    new Date(now + 24 * 60 * 60 * 1000),
+  );
+  const hourBefore = await sendRemindersBetween(
+    'reminder1hSentAt',
+    '1 hour',
+    new Date(now),
+    inOneHour,
+  );
+
+  return dayBefore + hourBefore;
+};
+
+// Sessions whose slot has ended wait for the coach to finish them or mark a
+// no-show; the coach is asked once
+const flagSessionsNeedingCompletion = async () => {
+  const bookings = await prisma.booking.findMany({
+    where: {
+      status: { in: UPCOMING_STATUSES },
+      needsCompletion: false,
+      timeSlot: { is: { endTime: { lte: new Date() } } },
+    },
+    include: {
+      athlete: { select: partySelect },
+      coach: { select: partySelect },
+    },
+    take: JOB_BATCH_SIZE,
+  });
+
+  let flagged = 0;
+  for (const booking of bookings) {
+    const { count } = await prisma.booking.updateMany({
+      where: { id: booking.id, needsCompletion: false },
+      data: { needsCompletion: true },
+    });
+    if (!count) continue;
+
+    await notifyUser(
+      booking.coach.user,
+      booking.athlete.user.id,
+      'Session Needs Completion',
+      `Your session with ${booking.athlete.fullName} on ${describeSessionTime(booking.bookingDate, resolveTimeZone(booking.coach.timezone))} has ended. Mark it as finished or as a no-show.`,
+    );
+    flagged++;
+  }
+
+  return flagged;
+};
+
+// Slots held for a checkout whose expiry webhook never came are given back,
+// together with the payment that was never made
+const releaseExpiredHolds = async () => {
+  const holds = await prisma.booking.findMany({
+    where: {
+      status: BookingStatus.PENDING_PAYMENT,
+      holdExpiresAt: {
+        lte: new Date(Date.now() - HOLD_RELEASE_GRACE_MINUTES * 60 * 1000),
+      },
+    },
+    select: { id: true, seriesId: true },
+    take: JOB_BATCH_SIZE,
+  });
+
+  // A series shares one checkout, so it is released as a whole
+  const seriesIds = new Set<string>();
+  let released = 0;
+  for (const hold of holds) {
+    if (hold.seriesId) {
+      seriesIds.add(hold.seriesId);
+      continue;
+    }
+    await prisma.payment.updateMany({
+      where: { bookingId: hold.id, status: PaymentStatus.PENDING },
+      data: { status: PaymentStatus.CANCELED },
+    });
+    await BookingServices.releaseHeldBooking(hold.id);
+    released++;
+  }
+  for (const seriesId of seriesIds) {
+    await prisma.payment.updateMany({
+      where: { seriesId, status: PaymentStatus.PENDING },
+      data: { status: PaymentStatus.CANCELED },
+    });
+    released += await BookingServices.releaseHeldSeries(seriesId);
+  }
+
+  return released;
+};
+
+export const BookingJobs = {
+  sendSessionReminders,
+  flagSessionsNeedingCompletion,
+  releaseExpiredHolds,
+};
@@ -2,6 +2,8 @@ import express from 'express';
 import { BookingController } from './Booking.controller';
 import auth from '../../middlewares/auth';
 import { UserRoleEnum } from '@prisma/client';
+import validateRequest from '../../middlewares/validateRequest';
+import { BookingValidation } from './Booking.validation';
 
 const router = express.Router();
 
@@ -34,9 +36,50 @@ router.post(
   BookingController.respondToReschedule,
 );
 
+router.get(
+  '/calendar/feed',
+  auth(UserRoleEnum.ATHLETE, UserRoleEnum.COACH),
+  BookingController.getMyCalendarFeed,
+);
+
+router.post(
+  '/calendar/feed/reset',
+  auth(UserRoleEnum.ATHLETE, UserRoleEnum.COACH),
+  BookingController.resetMyCalendarFeed,
+);
+
+// Public: calendar apps cannot send auth headers, the token is the secret
+router.get('/calendar/:token.ics', BookingController.getCalendarFeed);
+
+router.post(
+  '/series',
+  auth(UserRoleEnum.ATHLETE),
+  validateRequest.body(BookingValidation.createSeriesZodSchema),
+  BookingController.createSeries,
+);
+
+router.get(
+  '/series/:seriesId',
+  auth(UserRoleEnum.ATHLETE, UserRoleEnum.COACH),
+  BookingController.getSeries,
+);
+
+router.patch(
+  '/series/:seriesId/cancel',
+  auth(UserRoleEnum.ATHLETE, UserRoleEnum.COACH),
+  validateRequest.body(BookingValidation.cancelSeriesZodSchema),
+  BookingController.cancelSeries,
+);
+
 //main booking creation route
 router.post('/', auth(UserRoleEnum.ATHLETE), BookingController.createIntoDb);
 
+router.get(
+  '/:bookingId/cancel-preview',
+  auth(UserRoleEnum.ATHLETE, UserRoleEnum.COACH),
+  BookingController.getCancellationPreview,
+);
+
 router.patch(
   '/:bookingId/cancel',
   auth(UserRoleEnum.ATHLETE, UserRoleEnum.COACH),
@@ -48,4 +91,29 @@ router.patch(
   auth(UserRoleEnum.COACH),
   BookingController.finishBooking,
 );
+
+router.get(
+  '/:bookingId/timeline',
+  auth(UserRoleEnum.ATHLETE, UserRoleEnum.COACH, UserRoleEnum.ADMIN),
+  BookingController.getBookingTimeline,
+);
+
+router.get(
+  '/:bookingId/check-in-code',
+  auth(UserRoleEnum.ATHLETE),
+  BookingController.getCheckInCode,
+);
+
+router.post(
+  '/:bookingId/check-in',
+  auth(UserRoleEnum.COACH),
+  validateRequest.body(BookingValidation.checkInZodSchema),
+  BookingController.checkInBooking,
+);
+
+router.patch(
+  '/:bookingId/no-show',
+  auth(UserRoleEnum.COACH),
+  BookingController.markNoShow,
+);
 export const BookingRoutes = router;
@@ -1,15 +1,199 @@
 import { Request } from 'express';
-import { PrismaClient, BookingStatus, UserRoleEnum } from '@prisma/client';
+import crypto from 'crypto';
+import {
+  PrismaClient,
+  Prisma,
+  BookingEventType,
+  BookingSeriesStatus,
+  BookingStatus,
+  PaymentStatus,
+  PaymentType,
+  SessionMode,
+  UserRoleEnum,
+} from '@prisma/client';
 import httpStatus from 'http-status';
 import AppError from '../../errors/AppError';
 import { createNotification } from '../../middlewares/notify';
+import { stripe } from '../../utils/stripe';
+import config from '../../../config';
+import {
+  ACTIVE_BOOKING_STATUSES,
+  BOOKING_HOLD_MINUTES,
+  CALENDAR_FEED_PAST_DAYS,
+  CHECK_IN_CLOSES_MINUTES_AFTER,
+  CHECK_IN_MAX_ATTEMPTS,
+  CHECK_IN_MAX_DISTANCE_METERS,
+  CHECK_IN_OPENS_MINUTES_BEFORE,
+  describeSessionTime,
+  distanceInMeters,
+  evaluateCancellationPolicy,
+  getMeetingAccess,
+  isSameSlotDate,
+  seatHoldingBookingWhere,
+  TSeriesCancelScope,
+} from './Booking.constants';
+import { getZonedParts, resolveTimeZone } from '../../utils/timezone';
+import {
+  addDays,
+  atTimeOfDay,
+  formatSlotTimes,
+} from '../Schedule/Schedule.constants';
+import { PayoutServices } from '../Payout/Payout.service';
+import { WaitlistServices } from '../Waitlist/Waitlist.service';
+import { PackageServices } from '../Package/Package.service';
+import { generateOTP } from '../../utils/otp';
+import { buildCalendar, TCalendarEvent } from '../../utils/ics';
+import { createMeetingRoom } from '../../utils/meeting';
+import emailSender, {
+  generateBookingConfirmationEmail,
+} from '../../utils/sendMail';
 
 const prisma = new PrismaClient();
 
+// Recount the seats a slot has taken from its bookings; runs inside the
+// booking transaction, so concurrent bookings of one slot conflict on this write
+const syncSlotSeats = async (
+  tx: Prisma.TransactionClient,
+  timeSlotId: string,
+) => {
+  const slot = await tx.timeSlot.findUnique({
+    where: { id: timeSlotId },
+    select: { capacity: true },
+  });
+  if (!slot) return null;
+
+  const bookedSeats = await tx.booking.count({
+    where: { timeSlotId, ...seatHoldingBookingWhere() },
+  });
+
+  return tx.timeSlot.update({
+    where: { id: timeSlotId },
+    data: { bookedSeats, isBooked: bookedSeats >= slot.capacity },
+  });
+};
+
+// Whether a paid hold can still have its seat: a hold that lapsed before its
+// payment arrived stopped counting, so another athlete or a waitlist offer
+// may have taken it
+const hasSeatForHold = async (
+  tx: Prisma.TransactionClient,
+  booking: { id: string; athleteId: string; timeSlotId: string | null },
+) => {
+  if (!booking.timeSlotId) return true;
+
+  const { capacity, takenSeats, reservedSeats } =
+    await WaitlistServices.getSeatUse(
+      tx,
+      booking.timeSlotId,
+      booking.athleteId,
+    );
+  // The hold itself, while it has not lapsed
+  const ownSeat = await tx.booking.count({
+    where: { id: booking.id, ...seatHoldingBookingWhere() },
+  });
+  return takenSeats - ownSeat + reservedSeats < capacity;
+};
+
+type TBookingEvent = {
+  bookingId: string;
+  type: BookingEventType;
+  fromStatus?: BookingStatus | null;
+  toStatus?: BookingStatus | null;
+  actor?: { id: string; role: UserRoleEnum } | null;
+  reason?: string | null;
+  metadata?: Prisma.InputJsonValue;
+};
+
+// Append to the booking's audit trail, inside the caller's transaction when there is one
+const recordBookingEvent = (
+  client: Prisma.TransactionClient,
+  event: TBookingEvent,
+) =>
+  client.bookingEvent.create({
+    data: {
+      bookingId: event.bookingId,
+      type: event.type,
+      fromStatus: event.fromStatus,
+      toStatus: event.toStatus,
+      actorId: event.actor?.id,
+      actorRole: event.actor?.role,
+      reason: event.reason,
+      metadata: event.metadata,
+    },
+  });
+
+// Bookings use the coach's first offered mode unless the athlete picks one
+const pickSessionMode = (offered: SessionMode[], requested?: SessionMode) => {
+  const modes = offered.length ? offered : [SessionMode.IN_PERSON];
+  if (!requested) return modes[0];
+
+  if (!modes.includes(requested)) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      requested === SessionMode.ONLINE
+        ? 'This coach does not offer online sessions'
+        : 'This coach does not offer in-person sessions',
+    );
+  }
+  return requested;
+};
+
+// Online sessions get their video room once booked; athletes sharing a
+// group slot share its room
+const assignMeetingRoom = async (bookingId: string) => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { timeSlot: { select: { startTime: true, endTime: true } } },
+  });
+  if (
+    !booking ||
+    booking.sessionMode !== SessionMode.ONLINE ||
+    booking.meetingRoom
+  ) {
+    return booking?.meetingRoom ?? null;
+  }
+
+  const sibling = booking.timeSlotId
+    ? await prisma.booking.findFirst({
+        where: {
+          id: { not: booking.id },
+          timeSlotId: booking.timeSlotId,
+          sessionMode: SessionMode.ONLINE,
+          meetingRoom: { isSet: true },
+          ...seatHoldingBookingWhere(),
+        },
+        select: { meetingRoom: true },
+      })
+    : null;
+
+  const startsAt = booking.timeSlot?.startTime ?? booking.bookingDate;
+  const meetingRoom =
+    sibling?.meetingRoom ??
+    (await createMeetingRoom({
+      startsAt,
+      endsAt: booking.timeSlot?.endTime ?? startsAt,
+    }));
+
+  await prisma.booking.update({
+    where: { id: bookingId },
+    data: { meetingRoom },
+  });
+  return meetingRoom;
+};
+
 const createIntoDb = async (req: Request) => {
   const athleteEmail = req.user.email;
-  const { coachId, timeSlotId, bookingDate, notes, locationName, lon, lat } =
-    req.body;
+  const {
+    coachId,
+    timeSlotId,
+    bookingDate,
+    notes,
+    locationName,
+    lon,
+    lat,
+    sessionMode,
+    useCredit = true,
+  } = req.body;
 
   // Validate required fields
   if (!coachId || !timeSlotId || !bookingDate) {
@@ -19,8 +203,12 @@ const createIntoDb = async (req: Request) => {
     );
   }
 
+  // Seats of offers nobody claimed in time go to the next athletes in line
+  // before this booking counts the seats left
+  await WaitlistServices.expireStaleOffers(timeSlotId);
+
   // Start a transaction to ensure atomicity
-  return await prisma.$transaction(async tx => {
+  const { booking, athlete, coach } = await prisma.$transaction(async tx => {
     // 1. Get athlete by email
     const athlete = await tx.athlete.findUnique({
       where: { email: athleteEmail },
@@ -34,7 +222,11 @@ const createIntoDb = async (req: Request) => {
     // 2. Check if the time slot exists
     const timeSlot = await tx.timeSlot.findUnique({
       where: { id: timeSlotId },
-      include: { availability: true },
+      include: {
+        availability: {
+          include: { coach: { select: { timezone: true } } },
+        },
+      },
     });
 
     if (!timeSlot) {
@@ -54,49 +246,77 @@ const createIntoDb = async (req: Request) => {
       throw new AppError(httpStatus.BAD_REQUEST, 'Time slot is not active');
     }
 
-    // 5. Verify booking date matches the availability date
-    const bookingDateOnly = new Date(bookingDate);
-    bookingDateOnly.setHours(0, 0, 0, 0);
-
-    const availabilityDateOnly = new Date(timeSlot.availability.slotDate);
-    availabilityDateOnly.setHours(0, 0, 0, 0);
-
-    if (bookingDateOnly.getTime() !== availabilityDateOnly.getTime()) {
+    // 5. Verify booking date matches the availability date (coach's local date)
+    const coachTimeZone = resolveTimeZone(timeSlot.availability.coach.timezone);
+    if (
+      !isSameSlotDate(
+        String(bookingDate),
+        timeSlot.availability.slotDate,
+        coachTimeZone,
+      )
+    ) {
       throw new AppError(
         httpStatus.BAD_REQUEST,
         'Booking date does not match time slot availability date',
       );
     }
 
-    // 6. Check if the date is not in the past
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    if (bookingDateOnly < today) {
+    // 6. Check if the slot is not in the past
+    if (timeSlot.startTime <= new Date()) {
       throw new AppError(
         httpStatus.BAD_REQUEST,
         'Cannot book time slots in the past',
       );
     }
 
-    // 7. Check if the time slot is already booked for this specific date
-    const existingBooking = await tx.booking.findFirst({
+    // 6b. Coach is away (vacation, injury) during this slot
+    const blackout = await tx.coachBlackout.findFirst({
+      where: {
+        coachId: timeSlot.availability.coachId,
+        startAt: { lt: timeSlot.endTime },
+        endAt: { gt: timeSlot.startTime },
+      },
+    });
+    if (blackout) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        'Coach is unavailable during this time slot',
+      );
+    }
+
+    // 7. Check the athlete's seat and that seats are left (booked or held for checkout)
+    const ownBooking = await tx.booking.findFirst({
       where: {
         timeSlotId,
-        bookingDate: {
-          gte: bookingDateOnly,
-          lt: new Date(bookingDateOnly.getTime() + 24 * 60 * 60 * 1000),
-        },
-        status: {
-          in: ['CONFIRMED', 'RESCHEDULE_REQUEST', 'RESCHEDULED_ACCEPTED'],
-        },
+        athleteId: athlete.id,
+        ...seatHoldingBookingWhere(),
       },
     });
 
-    if (existingBooking) {
+    if (ownBooking) {
       throw new AppError(
         httpStatus.CONFLICT,
-        'This time slot is already booked for the selected date',
+        'You already have a seat in this session',
+      );
+    }
+
+    // Seats offered to waitlisted athletes stay theirs until the offer lapses
+    const { takenSeats, openSeats } = await WaitlistServices.getSeatUse(
+      tx,
+      timeSlotId,
+      athlete.id,
+    );
+
+    if (takenSeats >= timeSlot.capacity) {
+      throw new AppError(
+        httpStatus.CONFLICT,
+        'This time slot is already booked for the selected date. Join the waitlist to be offered it if it frees up',
+      );
+    }
+    if (openSeats <= 0) {
+      throw new AppError(
+        httpStatus.CONFLICT,
+        'This time slot is reserved for a waitlisted athlete. Join the waitlist to be offered it if it frees up',
       );
     }
 
@@ -110,15 +330,23 @@ const createIntoDb = async (req: Request) => {
       throw new AppError(httpStatus.NOT_FOUND, 'Coach not found');
     }
 
-    // 9. Create the booking with the exact slot time
-    const slotStartTime = new Date(timeSlot.startTime);
-    const bookingDateTime = new Date(bookingDate);
-    bookingDateTime.setHours(
-      slotStartTime.getHours(),
-      slotStartTime.getMinutes(),
-      slotStartTime.getSeconds(),
-      0,
-    );
+    // 8b. The coach has to offer the requested session mode
+    const mode = pickSessionMode(coach.sessionModes, sessionMode);
+
+    // 9. Create the booking with the exact slot time (an absolute instant)
+    const bookingDateTime = new Date(timeSlot.startTime);
+
+    // Paid sessions: spend a package credit when the athlete has one,
+    // otherwise hold the seat until checkout completes
+    const sessionPrice = timeSlot.seatPrice ?? coach.price ?? 0;
+    const creditPurchase =
+      sessionPrice > 0 && useCredit
+        ? await PackageServices.consumeCredit(tx, athlete.id, coachId)
+        : null;
+    const requiresPayment = sessionPrice > 0 && !creditPurchase;
+    const holdExpiresAt = requiresPayment
+      ? new Date(Date.now() + BOOKING_HOLD_MINUTES * 60 * 1000)
+      : null;
 
     const booking = await tx.booking.create({
       data: {
@@ -126,11 +354,15 @@ const createIntoDb = async (req: Request) => {
         coachId,
         timeSlotId,
         bookingDate: bookingDateTime,
-        status: BookingStatus.CONFIRMED,
+        status: requiresPayment
+          ? BookingStatus.PENDING_PAYMENT
+          : BookingStatus.CONFIRMED,
+        holdExpiresAt,
+        creditPurchaseId: creditPurchase?.id,
         notes,
-        lat,
-        lon,
-        locationName,
+        sessionMode: mode,
+        // Online sessions have no meeting place
+        ...(mode === SessionMode.IN_PERSON && { lat, lon, locationName }),
       },
       include: {
         athlete: {
@@ -158,28 +390,344 @@ const createIntoDb = async (req: Request) => {
             id: true,
             startTime: true,
             endTime: true,
+            capacity: true,
+            seatPrice: true,
           },
         },
       },
     });
 
-    // 10. Update the time slot's isBooked flag
-    await tx.timeSlot.update({
-      where: { id: timeSlotId },
-      data: { isBooked: true },
+    // 10. Take the seat (isBooked once every seat is taken)
+    await syncSlotSeats(tx, timeSlotId);
+    await WaitlistServices.claimLiveOffer(
+      tx,
+      timeSlotId,
+      athlete.id,
+      booking.id,
+    );
+
+    await recordBookingEvent(tx, {
+      bookingId: booking.id,
+      type: BookingEventType.CREATED,
+      toStatus: booking.status,
+      actor: { id: athlete.user.id, role: UserRoleEnum.ATHLETE },
+      metadata: { timeSlotId, creditPurchaseId: creditPurchase?.id ?? null },
     });
 
+    if (requiresPayment) {
+      return { booking, athlete, coach };
+    }
+
     // ✅ NOTIFICATION #1: NEW BOOKING CREATED
     // Send notification to coach when athlete creates a booking
     await createNotification({
       receiverId: coach.user.id, // Coach receives the notification
       senderId: athlete.user.id, // Athlete is the sender
       title: 'New Booking Received',
-      body: `${athlete.fullName} has booked a session with you on ${bookingDateTime.toLocaleDateString()} at ${slotStartTime.toLocaleTimeString()}`,
+      body: `${athlete.fullName} has booked a session with you on ${describeSessionTime(bookingDateTime, coachTimeZone)}`,
+    });
+
+    return { booking, athlete, coach };
+  });
+
+  await assignMeetingRoom(booking.id);
+
+  if (booking.status !== BookingStatus.PENDING_PAYMENT) {
+    await sendBookingConfirmationEmails(booking.id);
+    return booking;
+  }
+
+  // 11. Start Stripe checkout outside the transaction (network call)
+  try {
+    const checkout = await createSessionCheckout(
+      booking,
+      athlete,
+      coach,
+      booking.timeSlot?.seatPrice ?? (coach.price as number),
+    );
+    return { ...booking, holdExpiresAt: checkout.expiresAt, checkout };
+  } catch (error) {
+    console.log('❌ Stripe Checkout Error:', error);
+    await prisma.payment.updateMany({
+      where: { bookingId: booking.id, status: PaymentStatus.PENDING },
+      data: { status: PaymentStatus.CANCELED },
+    });
+    await releaseHeldBooking(booking.id);
+    throw new AppError(
+      httpStatus.BAD_GATEWAY,
+      'Could not start payment for this booking. Please try again.',
+    );
+  }
+};
+
+type TCheckoutAthlete = {
+  id: string;
+  email: string;
+  fullName: string;
+  user: { id: string; stripeCustomerId: string | null };
+};
+
+// Stripe Customer stored on the athlete's user
+const ensureStripeCustomer = async (athlete: TCheckoutAthlete) => {
+  if (athlete.user.stripeCustomerId) return athlete.user.stripeCustomerId;
+
+  const customer = await stripe.customers.create({
+    email: athlete.email,
+    name: athlete.fullName,
+    metadata: { athleteId: athlete.id },
+  });
+  await prisma.user.update({
+    where: { id: athlete.user.id },
+    data: { stripeCustomerId: customer.id },
+  });
+  return customer.id;
+};
+
+// Holds are set again right before their checkout is created, so the
+// checkout's expiry is still far enough out when Stripe receives it
+const extendHolds = async (where: Prisma.BookingWhereInput) => {
+  const holdExpiresAt = new Date(Date.now() + BOOKING_HOLD_MINUTES * 60 * 1000);
+  await prisma.booking.updateMany({
+    where: { ...where, status: BookingStatus.PENDING_PAYMENT },
+    data: { holdExpiresAt },
+  });
+  return holdExpiresAt;
+};
+
+// Create a Stripe Checkout session + pending Payment for a held booking
+const createSessionCheckout = async (
+  booking: { id: string; bookingDate: Date },
+  athlete: TCheckoutAthlete,
+  coach: { id: string; fullName: string },
+  price: number,
+) => {
+  // 1️⃣ Ensure Stripe Customer Exists
+  const customerId = await ensureStripeCustomer(athlete);
+
+  // 2️⃣ Store Payment Record (initially pending)
+  const payment = await prisma.payment.create({
+    data: {
+      type: PaymentType.SESSION,
+      coachId: coach.id,
+      athleteId: athlete.id,
+      bookingId: booking.id,
+      amount: price,
+      currency: 'usd',
+      status: PaymentStatus.PENDING,
+      stripeCustomerId: customerId,
+    },
+  });
+
+  // 3️⃣ Create Checkout Session that expires together with the slot hold,
+  // which is extended to start now
+  const holdExpiresAt = await extendHolds({ id: booking.id });
+  const session = await stripe.checkout.sessions.create({
+    mode: 'payment',
+    customer: customerId,
+    line_items: [
+      {
+        quantity: 1,
+        price_data: {
+          currency: 'usd',
+          unit_amount: Math.round(price * 100),
+          product_data: {
+            name: `Training session with ${coach.fullName}`,
+            description: booking.bookingDate.toUTCString(),
+          },
+        },
+      },
+    ],
+    metadata: { paymentId: payment.id, bookingId: booking.id },
+    payment_intent_data: {
+      metadata: { paymentId: payment.id, bookingId: booking.id },
+    },
+    expires_at: Math.floor(holdExpiresAt.getTime() / 1000),
+    success_url: `${config.base_url_client}/booking/payment-success?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${config.base_url_client}/booking/payment-cancel?session_id={CHECKOUT_SESSION_ID}`,
+  });
+
+  await prisma.payment.update({
+    where: { id: payment.id },
+    data: { stripeSessionId: session.id },
+  });
+
+  return {
+    paymentId: payment.id,
+    sessionId: session.id,
+    url: session.url,
+    amount: price,
+    currency: 'usd',
+    expiresAt: holdExpiresAt,
+  };
+};
+
+// Called from the Stripe webhook once the session payment succeeded. The
+// hold is confirmed only while its seat is free; otherwise it is released
+// and the payment goes back to the athlete.
+const confirmPaidBooking = async (bookingId: string) => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: {
+      athlete: { include: { user: true } },
+      coach: { include: { user: true } },
+      timeSlot: true,
+    },
+  });
+  if (!booking) return booking;
+
+  // Webhook retries, or a hold released or cancelled before the payment came
+  if (booking.status !== BookingStatus.PENDING_PAYMENT) {
+    if (booking.status === BookingStatus.CANCELLED) {
+      await refundUnbookedPayment(booking);
+    }
+    return booking;
+  }
+
+  const confirmed = await prisma.$transaction(async tx => {
+    if (!(await hasSeatForHold(tx, booking))) return null;
+
+    const { count } = await tx.booking.updateMany({
+      where: { id: bookingId, status: BookingStatus.PENDING_PAYMENT },
+      data: { status: BookingStatus.CONFIRMED, holdExpiresAt: null },
+    });
+    if (!count) return null;
+
+    if (booking.timeSlotId) await syncSlotSeats(tx, booking.timeSlotId);
+    await recordBookingEvent(tx, {
+      bookingId,
+      type: BookingEventType.PAYMENT_CONFIRMED,
+      fromStatus: BookingStatus.PENDING_PAYMENT,
+      toStatus: BookingStatus.CONFIRMED,
     });
 
+    return tx.booking.findUnique({ where: { id: bookingId } });
+  });
+
+  if (!confirmed) {
+    await releaseHeldBooking(bookingId);
+    await refundUnbookedPayment(booking);
+    return prisma.booking.findUnique({ where: { id: bookingId } });
+  }
+
+  const slotStartTime = booking.timeSlot
+    ? new Date(booking.timeSlot.startTime)
+    : booking.bookingDate;
+
+  // ✅ NOTIFICATION #1: NEW BOOKING CREATED (after payment)
+  await createNotification({
+    receiverId: booking.coach.user.id,
+    senderId: booking.athlete.user.id,
+    title: 'New Booking Received',
+    body: `${booking.athlete.fullName} has booked a session with you on ${describeSessionTime(slotStartTime, resolveTimeZone(booking.coach.timezone))}`,
+  });
+
+  await createNotification({
+    receiverId: booking.athlete.user.id,
+    senderId: booking.coach.user.id,
+    title: 'Booking Confirmed',
+    body: `Your payment was received and your session with ${booking.coach.fullName} on ${describeSessionTime(slotStartTime, resolveTimeZone(booking.athlete.timezone, booking.coach.timezone))} is confirmed`,
+  });
+
+  await sendBookingConfirmationEmails(bookingId);
+
+  return confirmed;
+};
+
+// Full refund of a session payment whose booking never got confirmed (its
+// hold was released, cancelled or lost its seat before the payment arrived)
+const refundUnbookedPayment = async (booking: {
+  id: string;
+  bookingDate: Date;
+  athlete: { timezone: string | null; user: { id: string } };
+  coach: { fullName: string; timezone: string | null; user: { id: string } };
+}) => {
+  // A booking that was confirmed once is refunded by its cancellation instead
+  const wasConfirmed = await prisma.bookingEvent.count({
+    where: { bookingId: booking.id, type: BookingEventType.PAYMENT_CONFIRMED },
+  });
+  const payment = await prisma.payment.findFirst({
+    where: {
+      bookingId: booking.id,
+      type: PaymentType.SESSION,
+      status: PaymentStatus.SUCCESS,
+    },
+  });
+  if (wasConfirmed || !payment?.stripePaymentId) return null;
+
+  const refund = await stripe.refunds.create(
+    {
+      payment_intent: payment.stripePaymentId,
+      metadata: { paymentId: payment.id },
+    },
+    { idempotencyKey: `unbooked_payment_refund_${payment.id}` },
+  );
+  const refunded = await prisma.payment.update({
+    where: { id: payment.id },
+    data: {
+      status: PaymentStatus.REFUNDED,
+      refundedAmount: payment.amount,
+      stripeRefundId: refund.id,
+      refundedAt: new Date(),
+    },
+  });
+
+  await createNotification({
+    receiverId: booking.athlete.user.id,
+    senderId: booking.coach.user.id,
+    title: 'Payment Refunded',
+    body: `Your checkout for the session with ${booking.coach.fullName} on ${describeSessionTime(booking.bookingDate, resolveTimeZone(booking.athlete.timezone, booking.coach.timezone))} closed before the payment arrived and the seat is no longer free, so your payment has been refunded`,
+  });
+
+  return refunded;
+};
+
+// Hand a freed slot to the waitlist; never fails the caller
+const offerSlotToWaitlist = async (timeSlotId?: string | null) => {
+  if (!timeSlotId) return;
+  try {
+    await WaitlistServices.offerFreedSlot(timeSlotId);
+  } catch (error) {
+    console.log('❌ Waitlist Offer Error:', error);
+  }
+};
+
+// Release a slot hold whose checkout expired, failed or was abandoned
+const releaseHeldBooking = async (bookingId: string) => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+  });
+
+  if (!booking || booking.status !== BookingStatus.PENDING_PAYMENT) {
     return booking;
+  }
+
+  const released = await prisma.$transaction(async tx => {
+    const released = await tx.booking.update({
+      where: { id: bookingId },
+      data: {
+        status: BookingStatus.CANCELLED,
+        holdExpiresAt: null,
+      },
+    });
+
+    // Give the seat back (recounted, so a later booking of the slot keeps its seat)
+    if (booking.timeSlotId) {
+      await syncSlotSeats(tx, booking.timeSlotId);
+    }
+
+    await recordBookingEvent(tx, {
+      bookingId,
+      type: BookingEventType.HOLD_RELEASED,
+      fromStatus: BookingStatus.PENDING_PAYMENT,
+      toStatus: BookingStatus.CANCELLED,
+    });
+
+    return released;
   });
+
+  await offerSlotToWaitlist(booking.timeSlotId);
+
+  return released;
 };
 
 const getAllBooking = async (query: Record<string, any>) => {
@@ -323,6 +871,8 @@ const getMyBooking = async (email: string) => {
         lat: true,
         lon: true,
         locationName: true,
+        sessionMode: true,
+        meetingRoom: true,
         createdAt: true,
         coach: {
           select: {
@@ -411,6 +961,10 @@ const getMyBooking = async (email: string) => {
         lat: true,
         lon: true,
         locationName: true,
+        sessionMode: true,
+        meetingRoom: true,
+        needsCompletion: true,
+        checkedInAt: true,
         createdAt: true,
         athlete: {
           select: {
@@ -419,6 +973,7 @@ const getMyBooking = async (email: string) => {
             phoneNumber: true,
             profile: true,
             email: true,
+            noShowCount: true,
           },
         },
         timeSlot: {
@@ -448,7 +1003,23 @@ const getMyBooking = async (email: string) => {
     });
   }
 
-  return bookings;
+  // Session times in the viewer's own zone next to the raw instants
+  const timezone = resolveTimeZone(athlete?.timezone, coach?.timezone);
+  // Online sessions: a personal join link, only close to session time
+  const participant = {
+    id: (athlete ?? coach)?.id as string,
+    name: (athlete ?? coach)?.fullName as string,
+    isHost: !athlete,
+  };
+  return (bookings ?? []).map(booking => ({
+    ...booking,
+    timezone,
+    sessionTime: booking.timeSlot
+      ? formatSlotTimes(booking.timeSlot, timezone)
+      : null,
+    meetingRoom: undefined,
+    meeting: getMeetingAccess(booking, participant),
+  }));
 };
 
 const getMyFinishedBooking = async (email: string, status?: string) => {
@@ -479,6 +1050,7 @@ const getMyFinishedBooking = async (email: string, status?: string) => {
         BookingStatus.FINISHED,
         BookingStatus.CANCELLED,
         BookingStatus.RESCHEDULED_ACCEPTED,
+        BookingStatus.NO_SHOW,
       ],
     };
   }
@@ -634,7 +1206,8 @@ const getMyFinishedBooking = async (email: string, status?: string) => {
   return bookings;
 };
 
-const cancelBooking = async (
+// Loads a booking and checks that the caller is one of its two parties
+const getCancellableBooking = async (
   userEmail: string,
   userRole: UserRoleEnum,
   bookingId: string,
@@ -673,6 +1246,7 @@ const cancelBooking = async (
           email: true,
           profile: true,
           price: true,
+          cancellationPolicy: true,
           user: true,
         },
       },
@@ -683,6 +1257,7 @@ const cancelBooking = async (
           endTime: true,
         },
       },
+      series: { select: { id: true, pricePerSession: true } },
     },
   });
 
@@ -717,89 +1292,447 @@ const cancelBooking = async (
     );
   }
 
-  const cancelledBooking = await prisma.$transaction(async tx => {
-    const updated = await tx.booking.update({
-      where: { id: bookingId },
-      data: {
-        status: BookingStatus.CANCELLED,
-      },
-      select: {
-        id: true,
-        bookingDate: true,
-        status: true,
-        notes: true,
-        updatedAt: true,
-        athlete: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
-          },
-        },
-        coach: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
-          },
-        },
-        timeSlot: {
-          select: {
-            id: true,
-            startTime: true,
-            endTime: true,
+  if (booking.status === BookingStatus.NO_SHOW) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Cannot cancel a session the athlete missed',
+    );
+  }
+
+  return { user, booking, isAthlete, isCoach };
+};
+
+type TCancellableBooking = Awaited<
+  ReturnType<typeof getCancellableBooking>
+>['booking'];
+
+// Applies the coach's cancellation policy to the session payment (if any)
+const quoteCancellationRefund = async (
+  booking: TCancellableBooking,
+  isCoach: boolean,
+) => {
+  const sessionStart = booking.timeSlot?.startTime ?? booking.bookingDate;
+  const { hoursBefore, refundPercent, rule } = evaluateCancellationPolicy(
+    booking.coach.cancellationPolicy,
+    sessionStart,
+    isCoach,
+  );
+
+  // Series occurrences share one checkout; each is worth one session of it
+  const seriesShare =
+    booking.series && !booking.creditPurchaseId ? booking.series : null;
+  const payment = seriesShare
+    ? await prisma.payment.findFirst({
+        where: {
+          seriesId: seriesShare.id,
+          type: PaymentType.SESSION,
+          status: {
+            in: [PaymentStatus.SUCCESS, PaymentStatus.PARTIALLY_REFUNDED],
           },
         },
-      },
-    });
-
-    if (booking.timeSlotId) {
-      await tx.timeSlot.update({
-        where: { id: booking.timeSlotId },
-        data: {
-          isBooked: false,
+      })
+    : await prisma.payment.findFirst({
+        where: {
+          bookingId: booking.id,
+          type: PaymentType.SESSION,
+          status: PaymentStatus.SUCCESS,
         },
       });
-    }
-
-    //  ✅  NOTIFICATION #2: BOOKING CANCELLED
-    //  Send notification to the other party (coach or athlete)
-    //  Determine receiver and sender based on who cancelled
-    // const receiverId = isAthlete
-    //   ? booking.coach.user.id // If athlete cancelled, notify coach
-    //   : booking.athlete.user.id; // If coach cancelled, notify athlete
-
-    // const senderName = isAthlete
-    //   ? booking.athlete.fullName
-    //   : booking.coach.fullName;
 
-    // await createNotification({
-    //   receiverId, // The other party receives the notification
-    //   senderId: user.user.id, // The canceller is the sender
-    //   title: 'Booking Cancelled',
-    //   body: `${senderName} has cancelled the booking scheduled for ${booking.bookingDate.toLocaleDateString()}`,
-    // });
+  const unrefunded = payment ? payment.amount - payment.refundedAmount : 0;
+  const paidAmount = seriesShare
+    ? Math.min(booking.seriesPrice ?? seriesShare.pricePerSession, unrefunded)
+    : unrefunded;
+  const refundAmount = Math.round(paidAmount * refundPercent) / 100;
 
-    return updated;
-  });
+  // A package credit cannot be split, so it only comes back on a full refund
+  const creditRestored = !!booking.creditPurchaseId && refundPercent === 100;
 
-  return cancelledBooking;
+  return {
+    payment,
+    quote: {
+      sessionStart,
+      hoursBefore: parseFloat(hoursBefore.toFixed(2)),
+      cancelledBy: isCoach ? UserRoleEnum.COACH : UserRoleEnum.ATHLETE,
+      refundPercent,
+      appliedRule: rule,
+      paidAmount,
+      refundAmount,
+      currency: payment?.currency ?? null,
+      creditRestored,
+    },
+  };
 };
 
-const finishBooking = async (
+const getCancellationPreview = async (
   userEmail: string,
   userRole: UserRoleEnum,
   bookingId: string,
 ) => {
-  if (userRole !== UserRoleEnum.COACH) {
-    throw new AppError(
-      httpStatus.FORBIDDEN,
-      'Only coaches can mark bookings as finished',
-    );
+  const { booking, isCoach } = await getCancellableBooking(
+    userEmail,
+    userRole,
+    bookingId,
+  );
+
+  const { quote } = await quoteCancellationRefund(booking, isCoach);
+  return quote;
+};
+
+const cancelledBookingSelect = {
+  id: true,
+  bookingDate: true,
+  status: true,
+  notes: true,
+  cancelledBy: true,
+  cancelledAt: true,
+  cancellationReason: true,
+  updatedAt: true,
+  athlete: {
+    select: {
+      id: true,
+      fullName: true,
+      email: true,
+    },
+  },
+  coach: {
+    select: {
+      id: true,
+      fullName: true,
+      email: true,
+    },
+  },
+  timeSlot: {
+    select: {
+      id: true,
+      startTime: true,
+      endTime: true,
+    },
+  },
+} as const;
+
+type TCancellation = {
+  booking: {
+    id: string;
+    status: BookingStatus;
+    coachId: string;
+    timeSlotId: string | null;
+    creditPurchaseId: string | null;
+  };
+  cancelledBy: UserRoleEnum;
+  actorId: string | null;
+  reason?: string | null;
+  refundPercent: number;
+  creditRestored: boolean;
+  paymentId: string | null;
+  refund: { id: string; amount: number } | null;
+};
+
+// Saves a cancellation and the refund issued for it. Applied once: a booking
+// the webhook already cancelled is returned as it is.
+const applyCancellation = async ({
+  booking,
+  cancelledBy,
+  actorId,
+  reason,
+  refundPercent,
+  creditRestored,
+  paymentId,
+  refund,
+}: TCancellation) =>
+  prisma.$transaction(async tx => {
+    const bookingId = booking.id;
+    const { count } = await tx.booking.updateMany({
+      where: { id: bookingId, status: { not: BookingStatus.CANCELLED } },
+      data: {
+        status: BookingStatus.CANCELLED,
+        holdExpiresAt: null,
+        cancelledBy,
+        cancelledAt: new Date(),
+        cancellationReason: reason,
+      },
+    });
+    if (!count) {
+      return tx.booking.findUniqueOrThrow({
+        where: { id: bookingId },
+        select: cancelledBookingSelect,
+      });
+    }
+
+    // Only this participant's seat is freed
+    if (booking.timeSlotId) {
+      await syncSlotSeats(tx, booking.timeSlotId);
+    }
+
+    if (booking.creditPurchaseId && creditRestored) {
+      await PackageServices.restoreCredit(tx, booking.creditPurchaseId);
+    }
+
+    await recordBookingEvent(tx, {
+      bookingId,
+      type: BookingEventType.CANCELLED,
+      fromStatus: booking.status,
+      toStatus: BookingStatus.CANCELLED,
+      actor: actorId ? { id: actorId, role: cancelledBy } : undefined,
+      reason: reason ?? undefined,
+      metadata: {
+        refundPercent,
+        refundAmount: refund?.amount ?? 0,
+        stripeRefundId: refund?.id ?? null,
+        creditRestored,
+      },
+    });
+
+    const payment =
+      refund && paymentId
+        ? await tx.payment.findUnique({ where: { id: paymentId } })
+        : null;
+    if (payment && refund) {
+      const refundedAmount = payment.refundedAmount + refund.amount;
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: {
+          refundedAmount,
+          stripeRefundId: refund.id,
+          refundedAt: new Date(),
+          status:
+            refundedAmount >= payment.amount
+              ? PaymentStatus.REFUNDED
+              : PaymentStatus.PARTIALLY_REFUNDED,
+        },
+      });
+    }
+
+    // Reliability stats: only confirmed sessions count against the coach
+    if (
+      cancelledBy === UserRoleEnum.COACH &&
+      booking.status !== BookingStatus.PENDING_PAYMENT
+    ) {
+      await tx.coach.update({
+        where: { id: booking.coachId },
+        data: { coachCancellations: { increment: 1 } },
+      });
+    }
+
+    //  ✅  NOTIFICATION #2: BOOKING CANCELLED
+    //  Send notification to the other party (coach or athlete)
+    //  Determine receiver and sender based on who cancelled
+    // const receiverId = isAthlete
+    //   ? booking.coach.user.id // If athlete cancelled, notify coach
+    //   : booking.athlete.user.id; // If coach cancelled, notify athlete
+
+    // const senderName = isAthlete
+    //   ? booking.athlete.fullName
+    //   : booking.coach.fullName;
+
+    // await createNotification({
+    //   receiverId, // The other party receives the notification
+    //   senderId: user.user.id, // The canceller is the sender
+    //   title: 'Booking Cancelled',
+    //   body: `${senderName} has cancelled the booking scheduled for ${booking.bookingDate.toLocaleDateString()}`,
+    // });
+
+    return tx.booking.findUniqueOrThrow({
+      where: { id: bookingId },
+      select: cancelledBookingSelect,
+    });
+  });
+
+// Webhook: cancellation refunds whose booking was not saved as cancelled
+// (the request failed after Stripe refunded) are applied from the refund
+const reconcileRefundedCharge = async (chargeId: string) => {
+  const refunds = await stripe.refunds.list({ charge: chargeId, limit: 100 });
+
+  let applied = 0;
+  for (const refund of refunds.data) {
+    const {
+      bookingId,
+      paymentId,
+      cancelledBy,
+      actorId,
+      refundPercent,
+      reason,
+    } = refund.metadata ?? {};
+    if (
+      !bookingId ||
+      refund.status === 'failed' ||
+      refund.status === 'canceled'
+    ) {
+      continue;
+    }
+
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+    });
+    if (!booking || booking.status === BookingStatus.CANCELLED) continue;
+
+    await applyCancellation({
+      booking,
+      cancelledBy:
+        cancelledBy === UserRoleEnum.COACH
+          ? UserRoleEnum.COACH
+          : UserRoleEnum.ATHLETE,
+      actorId: actorId || null,
+      reason: reason || null,
+      refundPercent: Number(refundPercent) || 0,
+      creditRestored: false,
+      paymentId: paymentId || null,
+      refund: { id: refund.id, amount: refund.amount / 100 },
+    });
+    await offerSlotToWaitlist(booking.timeSlotId);
+    applied++;
+  }
+
+  return applied;
+};
+
+const cancelBooking = async (
+  userEmail: string,
+  userRole: UserRoleEnum,
+  bookingId: string,
+  reason?: string,
+) => {
+  const { user, booking, isCoach } = await getCancellableBooking(
+    userEmail,
+    userRole,
+    bookingId,
+  );
+
+  // Close an open checkout so the athlete cannot pay for a cancelled hold.
+  // A series has one checkout for all its occurrences: it stays open while
+  // other occurrences wait for it, and the share of this one is refunded
+  // once it is paid.
+  const otherHeldOccurrences =
+    booking.status === BookingStatus.PENDING_PAYMENT && booking.seriesId
+      ? await prisma.booking.count({
+          where: {
+            seriesId: booking.seriesId,
+            status: BookingStatus.PENDING_PAYMENT,
+            id: { not: bookingId },
+          },
+        })
+      : 0;
+
+  if (
+    booking.status === BookingStatus.PENDING_PAYMENT &&
+    !otherHeldOccurrences
+  ) {
+    const pendingPayment = await prisma.payment.findFirst({
+      where: {
+        ...(booking.seriesId ? { seriesId: booking.seriesId } : { bookingId }),
+        status: PaymentStatus.PENDING,
+      },
+    });
+
+    if (pendingPayment) {
+      if (pendingPayment.stripeSessionId) {
+        try {
+          await stripe.checkout.sessions.expire(pendingPayment.stripeSessionId);
+        } catch (error) {
+          console.log('⚠️ Could not expire checkout session:', error);
+        }
+      }
+
+      await prisma.payment.update({
+        where: { id: pendingPayment.id },
+        data: { status: PaymentStatus.CANCELED },
+      });
+    }
+  }
+
+  // Refund first: if Stripe rejects it the booking stays as it was. The
+  // refund carries the cancellation, so the charge.refunded webhook can
+  // still apply it if saving it here fails.
+  const { payment, quote } = await quoteCancellationRefund(booking, isCoach);
+
+  let stripeRefundId: string | null = null;
+  if (payment && quote.refundAmount > 0) {
+    if (!payment.stripePaymentId) {
+      throw new AppError(
+        httpStatus.CONFLICT,
+        'Payment is not linked to a Stripe charge, refund cannot be issued',
+      );
+    }
+
+    try {
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: payment.stripePaymentId,
+          amount: Math.round(quote.refundAmount * 100),
+          metadata: {
+            paymentId: payment.id,
+            bookingId,
+            cancelledBy: quote.cancelledBy,
+            actorId: user.user.id,
+            refundPercent: quote.refundPercent,
+            reason: reason?.slice(0, 500) ?? null,
+          },
+        },
+        { idempotencyKey: `booking_cancel_refund_${payment.id}_${bookingId}` },
+      );
+      stripeRefundId = refund.id;
+    } catch (error) {
+      console.log('❌ Stripe Refund Error:', error);
+      throw new AppError(
+        httpStatus.BAD_GATEWAY,
+        'Refund could not be processed, the booking was not cancelled',
+      );
+    }
+  }
+
+  let cancelledBooking;
+  try {
+    cancelledBooking = await applyCancellation({
+      booking,
+      cancelledBy: quote.cancelledBy,
+      actorId: user.user.id,
+      reason,
+      refundPercent: quote.refundPercent,
+      creditRestored: quote.creditRestored,
+      paymentId: payment?.id ?? null,
+      refund: stripeRefundId
+        ? { id: stripeRefundId, amount: quote.refundAmount }
+        : null,
+    });
+  } catch (error) {
+    if (!stripeRefundId) throw error;
+    // The charge.refunded webhook applies the cancellation from the refund
+    console.log('❌ Cancellation Error after refund:', error);
+    throw new AppError(
+      httpStatus.INTERNAL_SERVER_ERROR,
+      'Your refund was issued, the cancellation will be completed shortly',
+    );
+  }
+
+  await offerSlotToWaitlist(booking.timeSlotId);
+
+  return {
+    ...cancelledBooking,
+    refund: {
+      refundPercent: quote.refundPercent,
+      refundAmount: stripeRefundId ? quote.refundAmount : 0,
+      currency: quote.currency,
+      stripeRefundId,
+      creditRestored: quote.creditRestored,
+    },
+  };
+};
+
+const finishBooking = async (
+  userEmail: string,
+  userRole: UserRoleEnum,
+  bookingId: string,
+) => {
+  if (userRole !== UserRoleEnum.COACH) {
+    throw new AppError(
+      httpStatus.FORBIDDEN,
+      'Only coaches can mark bookings as finished',
+    );
   }
 
   const coach = await prisma.coach.findUnique({
     where: { email: userEmail },
+    include: { user: true },
   });
 
   if (!coach) {
@@ -861,6 +1794,13 @@ const finishBooking = async (
     );
   }
 
+  if (booking.status === BookingStatus.NO_SHOW) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'This booking is already marked as a no-show',
+    );
+  }
+
   // if (![BookingStatus.CONFIRMED, BookingStatus.RESCHEDULED_ACCEPTED].includes(booking.status)) {
   //   throw new AppError(
   //     httpStatus.BAD_REQUEST,
@@ -876,16 +1816,27 @@ const finishBooking = async (
     );
   }
 
+  // Payouts and reviews need verified attendance, and a finished session can
+  // no longer be checked in
+  if (!booking.checkedInAt) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Check the athlete in before finishing the session, or mark it as a no-show',
+    );
+  }
+
   const finishedBooking = await prisma.booking.update({
     where: { id: bookingId },
     data: {
       status: BookingStatus.FINISHED,
+      needsCompletion: false,
     },
     select: {
       id: true,
       bookingDate: true,
       status: true,
       notes: true,
+      checkedInAt: true,
       updatedAt: true,
       athlete: {
         select: {
@@ -913,168 +1864,97 @@ const finishBooking = async (
     },
   });
 
-  return finishedBooking;
+  await recordBookingEvent(prisma, {
+    bookingId,
+    type: BookingEventType.FINISHED,
+    fromStatus: booking.status,
+    toStatus: BookingStatus.FINISHED,
+    actor: { id: coach.user.id, role: UserRoleEnum.COACH },
+  });
+
+  // Move the coach's share of the session payment to their connected account
+  // (checked-in sessions only). A failed transfer stays in the payout ledger
+  // and must not block finishing.
+  let payout = null;
+  try {
+    payout = await PayoutServices.createPayoutForBooking(bookingId);
+  } catch (error) {
+    console.log('❌ Payout Error:', error);
+  }
+
+  return { ...finishedBooking, payout };
 };
 
-// Reschedule Request
-const requestReschedule = async (
+// Coach marks that the athlete did not attend. Counts against the athlete's
+// reliability; the session is not refunded.
+const markNoShow = async (
   userEmail: string,
   userRole: UserRoleEnum,
-  payload: {
-    bookingId: string;
-    newTimeSlotId: string;
-    newBookingDate: string;
-    notes?: string;
-  },
+  bookingId: string,
 ) => {
-  // console.log(userEmail);
-  const user =
-    userRole === UserRoleEnum.ATHLETE
-      ? await prisma.athlete.findUnique({
-          where: { email: userEmail },
-          include: { user: true },
-        })
-      : await prisma.coach.findUnique({
-          where: { email: userEmail },
-          include: { user: true },
-        });
-
-  if (!user) {
-    throw new AppError(httpStatus.NOT_FOUND, 'User not found');
+  if (userRole !== UserRoleEnum.COACH) {
+    throw new AppError(httpStatus.FORBIDDEN, 'Only coaches can mark a no-show');
   }
 
-  // Original booking check
-  const originalBooking = await prisma.booking.findUnique({
-    where: { id: payload.bookingId },
-    include: {
-      athlete: {
-        include: {
-          user: true,
-        },
-      },
-      coach: {
-        include: {
-          user: true,
-        },
-      },
-      timeSlot: {
-        include: {
-          availability: true,
-        },
-      },
-    },
+  const coach = await prisma.coach.findUnique({
+    where: { email: userEmail },
+    include: { user: true },
   });
 
-  if (!originalBooking) {
-    throw new AppError(httpStatus.NOT_FOUND, 'Original booking not found');
+  if (!coach) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Coach not found');
   }
 
-  const isAthlete =
-    userRole === UserRoleEnum.ATHLETE && originalBooking.athleteId === user.id;
-  const isCoach =
-    userRole === UserRoleEnum.COACH && originalBooking.coachId === user.id;
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { athlete: { include: { user: true } } },
+  });
 
-  if (!isAthlete && !isCoach) {
-    throw new AppError(
-      httpStatus.FORBIDDEN,
-      'You are not authorized to reschedule this booking',
-    );
+  if (!booking) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Booking not found');
   }
 
-  // Check original booking already reschedule request cancelled/finished
-  if (originalBooking.status === BookingStatus.RESCHEDULE_REQUEST) {
+  if (booking.coachId !== coach.id) {
     throw new AppError(
-      httpStatus.BAD_REQUEST,
-      'This booking already has a pending reschedule request',
+      httpStatus.FORBIDDEN,
+      'You are not authorized to update this booking',
     );
   }
 
-  // if (
-  //   [BookingStatus.CANCELLED, BookingStatus.FINISHED].includes(
-  //     originalBooking.status,
-  //   )
-  // ) {
-  //   throw new AppError(
-  //     httpStatus.BAD_REQUEST,
-  //     'Cannot reschedule a cancelled or finished booking',
-  //   );
-  // }
-
-  // New time slot check
-  const newTimeSlot = await prisma.timeSlot.findUnique({
-    where: { id: payload.newTimeSlotId },
-    include: {
-      availability: true,
-    },
-  });
-
-  if (!newTimeSlot) {
-    throw new AppError(httpStatus.NOT_FOUND, 'New time slot not found');
-  }
-
-  if (newTimeSlot.availability.coachId !== originalBooking.coachId) {
+  if (
+    booking.status !== BookingStatus.CONFIRMED &&
+    booking.status !== BookingStatus.RESCHEDULED_ACCEPTED
+  ) {
     throw new AppError(
       httpStatus.BAD_REQUEST,
-      'New time slot must be from the same coach',
+      'Only confirmed sessions can be marked as a no-show',
     );
   }
 
-  const newBookingDate = new Date(payload.newBookingDate);
-
-  const availabilityDate = new Date(newTimeSlot.availability.slotDate);
-  availabilityDate.setHours(0, 0, 0, 0);
-  const requestedDate = new Date(newBookingDate);
-  requestedDate.setHours(0, 0, 0, 0);
-
-  if (availabilityDate.getTime() !== requestedDate.getTime()) {
+  if (booking.bookingDate > new Date()) {
     throw new AppError(
       httpStatus.BAD_REQUEST,
-      'Selected time slot does not belong to the requested date',
+      'Cannot mark a no-show before the session has started',
     );
   }
 
-  const existingBooking = await prisma.booking.findFirst({
-    where: {
-      timeSlotId: payload.newTimeSlotId,
-      bookingDate: newBookingDate,
-      status: {
-        in: [
-          BookingStatus.CONFIRMED,
-          BookingStatus.RESCHEDULE_REQUEST,
-          BookingStatus.RESCHEDULED_ACCEPTED,
-        ],
-      },
-    },
-  });
-
-  if (existingBooking) {
+  if (booking.checkedInAt) {
     throw new AppError(
       httpStatus.BAD_REQUEST,
-      'This time slot is already booked for the selected date',
+      'The athlete was checked in to this session',
     );
   }
 
-  // if (newBookingDate < new Date()) {
-  //   throw new AppError(
-  //     httpStatus.BAD_REQUEST,
-  //     'Cannot reschedule to a past date',
-  //   );
-  // }
-
-  const result = await prisma.$transaction(async tx => {
-    // New reschedule request booking create
-    const rescheduleBooking = await tx.booking.create({
-      data: {
-        athleteId: originalBooking.athleteId,
-        coachId: originalBooking.coachId,
-        timeSlotId: payload.newTimeSlotId,
-        bookingDate: newBookingDate,
-        status: BookingStatus.RESCHEDULE_REQUEST,
-        rescheduleFromId: payload.bookingId,
-        notes:
-          payload.notes || `Reschedule requested by ${userRole.toLowerCase()}`,
-      },
-      include: {
+  const noShowBooking = await prisma.$transaction(async tx => {
+    const updated = await tx.booking.update({
+      where: { id: bookingId },
+      data: { status: BookingStatus.NO_SHOW, needsCompletion: false },
+      select: {
+        id: true,
+        bookingDate: true,
+        status: true,
+        notes: true,
+        updatedAt: true,
         athlete: {
           select: {
             id: true,
@@ -1083,65 +1963,273 @@ const requestReschedule = async (
             profile: true,
           },
         },
-        coach: {
+        timeSlot: {
           select: {
             id: true,
-            fullName: true,
-            email: true,
-            profile: true,
-            price: true,
-          },
-        },
-        timeSlot: {
-          include: {
-            availability: true,
-          },
-        },
-        rescheduledFrom: {
-          include: {
-            timeSlot: {
-              include: {
-                availability: true,
-              },
-            },
+            startTime: true,
+            endTime: true,
           },
         },
       },
     });
 
-    // ✅ NOTIFICATION #4: RESCHEDULE REQUEST
-    // Send notification to the other party when reschedule is requested
-    // Determine receiver based on who requested the reschedule
-    // const receiverId = isAthlete
-    //   ? originalBooking.coach.user.id // If athlete requested, notify coach
-    //   : originalBooking.athlete.user.id; // If coach requested, notify athlete
+    await tx.athlete.update({
+      where: { id: booking.athleteId },
+      data: { noShowCount: { increment: 1 } },
+    });
 
-    // const senderName = isAthlete
-    //   ? originalBooking.athlete.fullName
-    //   : originalBooking.coach.fullName;
+    await recordBookingEvent(tx, {
+      bookingId,
+      type: BookingEventType.NO_SHOW,
+      fromStatus: booking.status,
+      toStatus: BookingStatus.NO_SHOW,
+      actor: { id: coach.user.id, role: UserRoleEnum.COACH },
+    });
 
-    // await createNotification({
-    //   receiverId, // The other party receives the notification
-    //   senderId: user.user.id, // The requester is the sender
-    //   title: 'Reschedule Request',
-    //   body: `${senderName} has requested to reschedule the booking to ${newBookingDate.toLocaleDateString()} at ${new Date(newTimeSlot.startTime).toLocaleTimeString()}`,
-    // });
+    return updated;
+  });
 
-    return rescheduleBooking;
+  await createNotification({
+    receiverId: booking.athlete.user.id,
+    senderId: coach.user.id,
+    title: 'Missed Session',
+    body: `${coach.fullName} marked you as absent from your session on ${describeSessionTime(booking.bookingDate, resolveTimeZone(booking.athlete.timezone, coach.timezone))}`,
   });
 
-  return result;
+  return noShowBooking;
+};
+
+// Window in which the session can be checked in
+const getCheckInWindow = (booking: {
+  bookingDate: Date;
+  timeSlot: { startTime: Date; endTime: Date } | null;
+}) => {
+  const start = booking.timeSlot?.startTime ?? booking.bookingDate;
+  const end = booking.timeSlot?.endTime ?? start;
+  return {
+    opensAt: new Date(start.getTime() - CHECK_IN_OPENS_MINUTES_BEFORE * 60000),
+    closesAt: new Date(end.getTime() + CHECK_IN_CLOSES_MINUTES_AFTER * 60000),
+  };
+};
+
+const assertCheckInOpen = (
+  booking: Parameters<typeof getCheckInWindow>[0] & {
+    status: BookingStatus;
+    checkedInAt: Date | null;
+  },
+) => {
+  if (
+    booking.status !== BookingStatus.CONFIRMED &&
+    booking.status !== BookingStatus.RESCHEDULED_ACCEPTED
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Only confirmed sessions can be checked in',
+    );
+  }
+  if (booking.checkedInAt) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'This session is already checked in',
+    );
+  }
+
+  const { opensAt, closesAt } = getCheckInWindow(booking);
+  const now = new Date();
+  if (now < opensAt) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Check-in opens ${CHECK_IN_OPENS_MINUTES_BEFORE} minutes before the session`,
+    );
+  }
+  if (now > closesAt) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Check-in for this session has closed',
+    );
+  }
+
+  return closesAt;
+};
+
+// Code (and QR payload) the athlete shows the coach at the session. The same
+// code is returned until it is used up by wrong attempts or expires.
+const getCheckInCode = async (athleteEmail: string, bookingId: string) => {
+  const athlete = await prisma.athlete.findUnique({
+    where: { email: athleteEmail },
+  });
+  if (!athlete) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Athlete not found');
+  }
+
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { timeSlot: { select: { startTime: true, endTime: true } } },
+  });
+  if (!booking || booking.athleteId !== athlete.id) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Booking not found');
+  }
+
+  const closesAt = assertCheckInOpen(booking);
+
+  let { checkInCode: code, checkInCodeExpiresAt: expiresAt } = booking;
+  const isUsable =
+    code &&
+    expiresAt &&
+    expiresAt > new Date() &&
+    booking.checkInAttempts < CHECK_IN_MAX_ATTEMPTS;
+
+  if (!isUsable) {
+    code = generateOTP();
+    expiresAt = closesAt;
+    await prisma.booking.update({
+      where: { id: bookingId },
+      data: {
+        checkInCode: code,
+        checkInCodeExpiresAt: expiresAt,
+        checkInAttempts: 0,
+      },
+    });
+  }
+
+  return {
+    bookingId,
+    code,
+    qrPayload: JSON.stringify({ type: 'session-check-in', bookingId, code }),
+    expiresAt,
+  };
+};
+
+// Coach enters or scans the athlete's code to record attendance
+const checkInBooking = async (
+  coachEmail: string,
+  bookingId: string,
+  payload: { code: string; lat?: number; lon?: number },
+) => {
+  const coach = await prisma.coach.findUnique({
+    where: { email: coachEmail },
+    include: { user: true },
+  });
+  if (!coach) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Coach not found');
+  }
+
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: {
+      athlete: { include: { user: true } },
+      timeSlot: { select: { startTime: true, endTime: true } },
+    },
+  });
+  if (!booking || booking.coachId !== coach.id) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Booking not found');
+  }
+
+  assertCheckInOpen(booking);
+
+  if (
+    !booking.checkInCode ||
+    !booking.checkInCodeExpiresAt ||
+    booking.checkInCodeExpiresAt <= new Date()
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'The athlete has no active check-in code. Ask them to open it in the app',
+    );
+  }
+  if (booking.checkInAttempts >= CHECK_IN_MAX_ATTEMPTS) {
+    throw new AppError(
+      httpStatus.TOO_MANY_REQUESTS,
+      'Too many wrong codes. Ask the athlete to refresh their check-in code',
+    );
+  }
+
+  if (payload.code.trim() !== booking.checkInCode) {
+    await prisma.booking.update({
+      where: { id: bookingId },
+      data: { checkInAttempts: { increment: 1 } },
+    });
+    throw new AppError(httpStatus.BAD_REQUEST, 'Invalid check-in code');
+  }
+
+  // Proximity is only checked when both the booking and the coach have a location
+  let checkInDistanceMeters: number | null = null;
+  if (
+    booking.lat != null &&
+    booking.lon != null &&
+    payload.lat != null &&
+    payload.lon != null
+  ) {
+    checkInDistanceMeters = Math.round(
+      distanceInMeters(
+        { lat: booking.lat, lon: booking.lon },
+        { lat: payload.lat, lon: payload.lon },
+      ),
+    );
+    if (checkInDistanceMeters > CHECK_IN_MAX_DISTANCE_METERS) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `You are ${checkInDistanceMeters}m away from the session location. Check in at the session`,
+      );
+    }
+  }
+
+  const checkedIn = await prisma.booking.update({
+    where: { id: bookingId },
+    data: {
+      checkedInAt: new Date(),
+      checkInLat: payload.lat,
+      checkInLon: payload.lon,
+      checkInDistanceMeters,
+      checkInCode: null,
+      checkInCodeExpiresAt: null,
+    },
+    select: {
+      id: true,
+      bookingDate: true,
+      status: true,
+      checkedInAt: true,
+      checkInDistanceMeters: true,
+      athlete: {
+        select: {
+          id: true,
+          fullName: true,
+          email: true,
+          profile: true,
+        },
+      },
+    },
+  });
+
+  await recordBookingEvent(prisma, {
+    bookingId,
+    type: BookingEventType.CHECKED_IN,
+    actor: { id: coach.user.id, role: UserRoleEnum.COACH },
+    metadata: { distanceMeters: checkInDistanceMeters },
+  });
+
+  await createNotification({
+    receiverId: booking.athlete.user.id,
+    senderId: coach.user.id,
+    title: 'Checked In',
+    body: `${coach.fullName} checked you in to your session on ${describeSessionTime(booking.bookingDate, resolveTimeZone(booking.athlete.timezone, coach.timezone))}`,
+  });
+
+  return checkedIn;
 };
 
 // Reschedule Request
-const respondToReschedule = async (
+const requestReschedule = async (
   userEmail: string,
   userRole: UserRoleEnum,
   payload: {
-    rescheduleFromId: string;
-    status: 'RESCHEDULED_ACCEPTED' | 'RESCHEDULED_CANCELED';
+    bookingId: string;
+    newTimeSlotId: string;
+    newBookingDate: string;
+    notes?: string;
   },
 ) => {
+  // console.log(userEmail);
   const user =
     userRole === UserRoleEnum.ATHLETE
       ? await prisma.athlete.findUnique({
@@ -1157,23 +2245,18 @@ const respondToReschedule = async (
     throw new AppError(httpStatus.NOT_FOUND, 'User not found');
   }
 
-  // Reschedule request booking
-  const rescheduleRequest = await prisma.booking.findUnique({
-    where: { id: payload.rescheduleFromId },
+  // Original booking check
+  const originalBooking = await prisma.booking.findUnique({
+    where: { id: payload.bookingId },
     include: {
       athlete: {
-        include: { user: true },
+        include: {
+          user: true,
+        },
       },
       coach: {
-        include: { user: true },
-      },
-      rescheduledFrom: {
         include: {
-          timeSlot: {
-            include: {
-              availability: true,
-            },
-          },
+          user: true,
         },
       },
       timeSlot: {
@@ -1184,63 +2267,351 @@ const respondToReschedule = async (
     },
   });
 
-  if (!rescheduleRequest) {
-    throw new AppError(httpStatus.NOT_FOUND, 'Reschedule request not found');
-  }
-
-  if (rescheduleRequest.status !== BookingStatus.RESCHEDULE_REQUEST) {
-    throw new AppError(
-      httpStatus.BAD_REQUEST,
-      'This is not a pending reschedule request',
-    );
+  if (!originalBooking) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Original booking not found');
   }
 
   const isAthlete =
-    userRole === UserRoleEnum.ATHLETE &&
-    rescheduleRequest.athleteId === user.id;
+    userRole === UserRoleEnum.ATHLETE && originalBooking.athleteId === user.id;
   const isCoach =
-    userRole === UserRoleEnum.COACH && rescheduleRequest.coachId === user.id;
+    userRole === UserRoleEnum.COACH && originalBooking.coachId === user.id;
 
   if (!isAthlete && !isCoach) {
     throw new AppError(
       httpStatus.FORBIDDEN,
-      'You are not authorized to respond to this reschedule request',
+      'You are not authorized to reschedule this booking',
     );
   }
 
-  if (!rescheduleRequest.rescheduledFrom) {
-    throw new AppError(httpStatus.BAD_REQUEST, 'Original booking not found');
+  // Check original booking already reschedule request cancelled/finished
+  if (originalBooking.status === BookingStatus.RESCHEDULE_REQUEST) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'This booking already has a pending reschedule request',
+    );
   }
 
-  // status handle
-  if (payload.status === BookingStatus.RESCHEDULED_ACCEPTED) {
-    const result = await prisma.$transaction(async tx => {
-      // Original booking cancel
-      await tx.booking.update({
-        where: { id: rescheduleRequest.rescheduleFromId! },
-        data: {
-          status: BookingStatus.CANCELLED,
-        },
-      });
+  // if (
+  //   [BookingStatus.CANCELLED, BookingStatus.FINISHED].includes(
+  //     originalBooking.status,
+  //   )
+  // ) {
+  //   throw new AppError(
+  //     httpStatus.BAD_REQUEST,
+  //     'Cannot reschedule a cancelled or finished booking',
+  //   );
+  // }
 
-      // New booking accept
-      const acceptedBooking = await tx.booking.update({
-        where: { id: payload.rescheduleFromId },
-        data: {
-          status: BookingStatus.RESCHEDULED_ACCEPTED,
-        },
-        include: {
-          athlete: {
-            select: {
-              id: true,
-              fullName: true,
-              email: true,
-              profile: true,
-            },
-          },
-          coach: {
-            select: {
-              id: true,
+  // New time slot check
+  const newTimeSlot = await prisma.timeSlot.findUnique({
+    where: { id: payload.newTimeSlotId },
+    include: {
+      availability: {
+        include: { coach: { select: { timezone: true } } },
+      },
+    },
+  });
+
+  if (!newTimeSlot) {
+    throw new AppError(httpStatus.NOT_FOUND, 'New time slot not found');
+  }
+
+  if (newTimeSlot.availability.coachId !== originalBooking.coachId) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'New time slot must be from the same coach',
+    );
+  }
+
+  if (
+    !isSameSlotDate(
+      String(payload.newBookingDate),
+      newTimeSlot.availability.slotDate,
+      resolveTimeZone(newTimeSlot.availability.coach.timezone),
+    )
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Selected time slot does not belong to the requested date',
+    );
+  }
+
+  const blackout = await prisma.coachBlackout.findFirst({
+    where: {
+      coachId: originalBooking.coachId,
+      startAt: { lt: newTimeSlot.endTime },
+      endAt: { gt: newTimeSlot.startTime },
+    },
+  });
+  if (blackout) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Coach is unavailable during the selected time slot',
+    );
+  }
+
+  // The session starts exactly at the slot's start instant
+  const newBookingDate = new Date(newTimeSlot.startTime);
+
+  // Seats of offers nobody claimed in time go to the next athletes in line
+  // before the request counts the seats left
+  await WaitlistServices.expireStaleOffers(payload.newTimeSlotId);
+
+  // if (newBookingDate < new Date()) {
+  //   throw new AppError(
+  //     httpStatus.BAD_REQUEST,
+  //     'Cannot reschedule to a past date',
+  //   );
+  // }
+
+  const result = await prisma.$transaction(async tx => {
+    // Counted here so two requests cannot both take the last seat, and seats
+    // offered to waitlisted athletes stay theirs
+    const { takenSeats, openSeats } = await WaitlistServices.getSeatUse(
+      tx,
+      payload.newTimeSlotId,
+      originalBooking.athleteId,
+    );
+
+    if (takenSeats >= newTimeSlot.capacity) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        'This time slot is already booked for the selected date',
+      );
+    }
+    if (openSeats <= 0) {
+      throw new AppError(
+        httpStatus.CONFLICT,
+        'This time slot is reserved for a waitlisted athlete',
+      );
+    }
+
+    // New reschedule request booking create
+    const rescheduleBooking = await tx.booking.create({
+      data: {
+        athleteId: originalBooking.athleteId,
+        coachId: originalBooking.coachId,
+        timeSlotId: payload.newTimeSlotId,
+        bookingDate: newBookingDate,
+        status: BookingStatus.RESCHEDULE_REQUEST,
+        rescheduleFromId: payload.bookingId,
+        creditPurchaseId: originalBooking.creditPurchaseId,
+        seriesId: originalBooking.seriesId,
+        seriesPrice: originalBooking.seriesPrice,
+        sessionMode: originalBooking.sessionMode,
+        notes:
+          payload.notes || `Reschedule requested by ${userRole.toLowerCase()}`,
+      },
+      include: {
+        athlete: {
+          select: {
+            id: true,
+            fullName: true,
+            email: true,
+            profile: true,
+          },
+        },
+        coach: {
+          select: {
+            id: true,
+            fullName: true,
+            email: true,
+            profile: true,
+            price: true,
+          },
+        },
+        timeSlot: {
+          include: {
+            availability: true,
+          },
+        },
+        rescheduledFrom: {
+          include: {
+            timeSlot: {
+              include: {
+                availability: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    // The request holds a seat in the new slot until it is answered
+    await syncSlotSeats(tx, payload.newTimeSlotId);
+    await WaitlistServices.claimLiveOffer(
+      tx,
+      payload.newTimeSlotId,
+      originalBooking.athleteId,
+      rescheduleBooking.id,
+    );
+
+    await recordBookingEvent(tx, {
+      bookingId: rescheduleBooking.id,
+      type: BookingEventType.RESCHEDULE_REQUESTED,
+      toStatus: BookingStatus.RESCHEDULE_REQUEST,
+      actor: { id: user.user.id, role: userRole },
+      reason: payload.notes,
+      metadata: { rescheduleFromId: payload.bookingId },
+    });
+
+    // ✅ NOTIFICATION #4: RESCHEDULE REQUEST
+    // Send notification to the other party when reschedule is requested
+    // Determine receiver based on who requested the reschedule
+    // const receiverId = isAthlete
+    //   ? originalBooking.coach.user.id // If athlete requested, notify coach
+    //   : originalBooking.athlete.user.id; // If coach requested, notify athlete
+
+    // const senderName = isAthlete
+    //   ? originalBooking.athlete.fullName
+    //   : originalBooking.coach.fullName;
+
+    // await createNotification({
+    //   receiverId, // The other party receives the notification
+    //   senderId: user.user.id, // The requester is the sender
+    //   title: 'Reschedule Request',
+    //   body: `${senderName} has requested to reschedule the booking to ${newBookingDate.toLocaleDateString()} at ${new Date(newTimeSlot.startTime).toLocaleTimeString()}`,
+    // });
+
+    return rescheduleBooking;
+  });
+
+  // The new slot may already have a room (group session) or needs one
+  await assignMeetingRoom(result.id);
+
+  return result;
+};
+
+// Reschedule Request
+const respondToReschedule = async (
+  userEmail: string,
+  userRole: UserRoleEnum,
+  payload: {
+    rescheduleFromId: string;
+    status: 'RESCHEDULED_ACCEPTED' | 'RESCHEDULED_CANCELED';
+  },
+) => {
+  const user =
+    userRole === UserRoleEnum.ATHLETE
+      ? await prisma.athlete.findUnique({
+          where: { email: userEmail },
+          include: { user: true },
+        })
+      : await prisma.coach.findUnique({
+          where: { email: userEmail },
+          include: { user: true },
+        });
+
+  if (!user) {
+    throw new AppError(httpStatus.NOT_FOUND, 'User not found');
+  }
+
+  // Reschedule request booking
+  const rescheduleRequest = await prisma.booking.findUnique({
+    where: { id: payload.rescheduleFromId },
+    include: {
+      athlete: {
+        include: { user: true },
+      },
+      coach: {
+        include: { user: true },
+      },
+      rescheduledFrom: {
+        include: {
+          timeSlot: {
+            include: {
+              availability: true,
+            },
+          },
+        },
+      },
+      timeSlot: {
+        include: {
+          availability: true,
+        },
+      },
+    },
+  });
+
+  if (!rescheduleRequest) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Reschedule request not found');
+  }
+
+  if (rescheduleRequest.status !== BookingStatus.RESCHEDULE_REQUEST) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'This is not a pending reschedule request',
+    );
+  }
+
+  const isAthlete =
+    userRole === UserRoleEnum.ATHLETE &&
+    rescheduleRequest.athleteId === user.id;
+  const isCoach =
+    userRole === UserRoleEnum.COACH && rescheduleRequest.coachId === user.id;
+
+  if (!isAthlete && !isCoach) {
+    throw new AppError(
+      httpStatus.FORBIDDEN,
+      'You are not authorized to respond to this reschedule request',
+    );
+  }
+
+  if (!rescheduleRequest.rescheduledFrom) {
+    throw new AppError(httpStatus.BAD_REQUEST, 'Original booking not found');
+  }
+
+  // status handle
+  if (payload.status === BookingStatus.RESCHEDULED_ACCEPTED) {
+    const result = await prisma.$transaction(async tx => {
+      // Original booking cancel
+      await tx.booking.update({
+        where: { id: rescheduleRequest.rescheduleFromId! },
+        data: {
+          status: BookingStatus.CANCELLED,
+        },
+      });
+
+      const actor = { id: user.user.id, role: userRole };
+      await recordBookingEvent(tx, {
+        bookingId: rescheduleRequest.rescheduleFromId!,
+        type: BookingEventType.RESCHEDULED_AWAY,
+        fromStatus: rescheduleRequest.rescheduledFrom?.status,
+        toStatus: BookingStatus.CANCELLED,
+        actor,
+        metadata: { rescheduledToId: rescheduleRequest.id },
+      });
+      await recordBookingEvent(tx, {
+        bookingId: rescheduleRequest.id,
+        type: BookingEventType.RESCHEDULE_ACCEPTED,
+        fromStatus: BookingStatus.RESCHEDULE_REQUEST,
+        toStatus: BookingStatus.RESCHEDULED_ACCEPTED,
+        actor,
+      });
+
+      // The participant's seat moves from the old slot to the new one
+      if (rescheduleRequest.rescheduledFrom?.timeSlotId) {
+        await syncSlotSeats(tx, rescheduleRequest.rescheduledFrom.timeSlotId);
+      }
+
+      // New booking accept
+      const acceptedBooking = await tx.booking.update({
+        where: { id: payload.rescheduleFromId },
+        data: {
+          status: BookingStatus.RESCHEDULED_ACCEPTED,
+        },
+        include: {
+          athlete: {
+            select: {
+              id: true,
+              fullName: true,
+              email: true,
+              profile: true,
+            },
+          },
+          coach: {
+            select: {
+              id: true,
               fullName: true,
               email: true,
               profile: true,
@@ -1279,6 +2650,8 @@ const respondToReschedule = async (
       return acceptedBooking;
     });
 
+    await offerSlotToWaitlist(rescheduleRequest.rescheduledFrom.timeSlotId);
+
     return result;
   } else if (payload.status === BookingStatus.RESCHEDULED_CANCELED) {
     const result = await prisma.$transaction(async tx => {
@@ -1290,6 +2663,19 @@ const respondToReschedule = async (
         },
       });
 
+      // Give back the seat the request was holding
+      if (rescheduleRequest.timeSlotId) {
+        await syncSlotSeats(tx, rescheduleRequest.timeSlotId);
+      }
+
+      await recordBookingEvent(tx, {
+        bookingId: rescheduleRequest.id,
+        type: BookingEventType.RESCHEDULE_REJECTED,
+        fromStatus: BookingStatus.RESCHEDULE_REQUEST,
+        toStatus: BookingStatus.RESCHEDULED_CANCELED,
+        actor: { id: user.user.id, role: userRole },
+      });
+
       // Original booking
       const originalBooking = await tx.booking.findUnique({
         where: { id: rescheduleRequest.rescheduleFromId! },
@@ -1369,6 +2755,9 @@ const respondToReschedule = async (
       };
     });
 
+    // The slot the reschedule asked for is free again
+    await offerSlotToWaitlist(rescheduleRequest.timeSlotId);
+
     return result;
   } else {
     throw new AppError(httpStatus.BAD_REQUEST, 'Invalid action provided');
@@ -1455,6 +2844,968 @@ const getPendingRescheduleRequests = async (
   return requests;
 };
 
+// Everything that happened to a session: the whole reschedule chain it
+// belongs to and the audit events of every booking in it, oldest first
+const getBookingTimeline = async (
+  userEmail: string,
+  userRole: UserRoleEnum,
+  bookingId: string,
+) => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+  });
+  if (!booking) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Booking not found');
+  }
+
+  if (userRole !== UserRoleEnum.ADMIN) {
+    const user =
+      userRole === UserRoleEnum.ATHLETE
+        ? await prisma.athlete.findUnique({ where: { email: userEmail } })
+        : await prisma.coach.findUnique({ where: { email: userEmail } });
+    const isParty =
+      (userRole === UserRoleEnum.ATHLETE && booking.athleteId === user?.id) ||
+      (userRole === UserRoleEnum.COACH && booking.coachId === user?.id);
+    if (!isParty) {
+      throw new AppError(
+        httpStatus.FORBIDDEN,
+        'You are not authorized to view this booking',
+      );
+    }
+  }
+
+  // Walk back to the first booking of the chain...
+  const visited = new Set([booking.id]);
+  let root = booking;
+  while (root.rescheduleFromId && !visited.has(root.rescheduleFromId)) {
+    const parent = await prisma.booking.findUnique({
+      where: { id: root.rescheduleFromId },
+    });
+    if (!parent) break;
+    visited.add(parent.id);
+    root = parent;
+  }
+
+  // ...then collect every reschedule made from it, accepted or not
+  const chainIds = [root.id];
+  let frontier = [root.id];
+  while (frontier.length) {
+    const children = await prisma.booking.findMany({
+      where: { rescheduleFromId: { in: frontier } },
+      select: { id: true },
+    });
+    frontier = children
+      .map(child => child.id)
+      .filter(id => !chainIds.includes(id));
+    chainIds.push(...frontier);
+  }
+
+  const [bookings, events] = await Promise.all([
+    prisma.booking.findMany({
+      where: { id: { in: chainIds } },
+      select: {
+        id: true,
+        status: true,
+        bookingDate: true,
+        rescheduleFromId: true,
+        seriesId: true,
+        cancelledBy: true,
+        cancelledAt: true,
+        cancellationReason: true,
+        checkedInAt: true,
+        createdAt: true,
+        timeSlot: { select: { id: true, startTime: true, endTime: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.bookingEvent.findMany({
+      where: { bookingId: { in: chainIds } },
+      include: {
+        actor: {
+          select: { id: true, fullName: true, email: true, role: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  return {
+    bookingId,
+    rootBookingId: root.id,
+    bookings,
+    events,
+  };
+};
+
+// ==================== Calendar export ====================
+
+const CALENDAR_STATUSES: BookingStatus[] = [
+  BookingStatus.CONFIRMED,
+  BookingStatus.RESCHEDULED_ACCEPTED,
+  BookingStatus.FINISHED,
+  BookingStatus.NO_SHOW,
+  BookingStatus.CANCELLED,
+];
+
+const calendarBookingSelect = {
+  id: true,
+  status: true,
+  bookingDate: true,
+  rescheduleFromId: true,
+  notes: true,
+  locationName: true,
+  sessionMode: true,
+  createdAt: true,
+  updatedAt: true,
+  athlete: { select: { fullName: true, email: true, timezone: true } },
+  coach: { select: { fullName: true, email: true, timezone: true } },
+  timeSlot: { select: { startTime: true, endTime: true } },
+} satisfies Prisma.BookingSelect;
+
+type TCalendarBooking = Prisma.BookingGetPayload<{
+  select: typeof calendarBookingSelect;
+}>;
+
+// `uid` stays the same across a reschedule chain, so calendar apps move the
+// event instead of adding a second one
+const toCalendarEvent = (
+  booking: TCalendarBooking,
+  uid: string,
+  viewerRole: UserRoleEnum,
+): TCalendarEvent => {
+  const start = booking.timeSlot?.startTime ?? booking.bookingDate;
+  return {
+    uid: `${uid}@bookings`,
+    start,
+    end: booking.timeSlot?.endTime ?? new Date(start.getTime() + 60 * 60000),
+    summary:
+      viewerRole === UserRoleEnum.COACH
+        ? `Session with ${booking.athlete.fullName}`
+        : `Training session with ${booking.coach.fullName}`,
+    description: booking.notes,
+    location:
+      booking.sessionMode === SessionMode.ONLINE
+        ? 'Online session'
+        : booking.locationName,
+    status:
+      booking.status === BookingStatus.CANCELLED ? 'CANCELLED' : 'CONFIRMED',
+    sequence: Math.floor(booking.updatedAt.getTime() / 1000),
+    updatedAt: booking.updatedAt,
+  };
+};
+
+const getCalendarFeedUrl = (token: string) =>
+  `${config.base_url_server}/api/v1/booking/calendar/${token}.ics`;
+
+const generateCalendarToken = () => crypto.randomBytes(24).toString('hex');
+
+// Subscription URL for the user's calendar app, created on first use
+const getMyCalendarFeed = async (userId: string) => {
+  const feed =
+    (await prisma.calendarFeed.findUnique({ where: { userId } })) ??
+    (await prisma.calendarFeed.create({
+      data: { userId, token: generateCalendarToken() },
+    }));
+
+  const url = getCalendarFeedUrl(feed.token);
+  return { url, webcalUrl: url.replace(/^https?:/, 'webcal:') };
+};
+
+// New token; calendars subscribed to the old URL stop updating
+const resetMyCalendarFeed = async (userId: string) => {
+  await prisma.calendarFeed.upsert({
+    where: { userId },
+    update: { token: generateCalendarToken() },
+    create: { userId, token: generateCalendarToken() },
+  });
+  return getMyCalendarFeed(userId);
+};
+
+// ICS body for a subscription URL; the token is the only credential
+const getCalendarFeed = async (token: string) => {
+  const feed = await prisma.calendarFeed.findUnique({
+    where: { token },
+    include: { user: { select: { email: true, role: true } } },
+  });
+  if (!feed) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Calendar not found');
+  }
+
+  const { email, role } = feed.user;
+  const party =
+    role === UserRoleEnum.COACH
+      ? await prisma.coach.findUnique({ where: { email } })
+      : await prisma.athlete.findUnique({ where: { email } });
+  if (!party) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Calendar not found');
+  }
+
+  const bookings = await prisma.booking.findMany({
+    where: {
+      ...(role === UserRoleEnum.COACH
+        ? { coachId: party.id }
+        : { athleteId: party.id }),
+      status: { in: CALENDAR_STATUSES },
+      bookingDate: {
+        gte: new Date(Date.now() - CALENDAR_FEED_PAST_DAYS * 86400000),
+      },
+    },
+    select: calendarBookingSelect,
+    orderBy: { createdAt: 'asc' },
+  });
+
+  // One event per reschedule chain: the booking that still stands, or the
+  // latest one when the whole chain was cancelled
+  const byId = new Map(bookings.map(booking => [booking.id, booking]));
+  const chainRoot = (booking: TCalendarBooking) => {
+    let root = booking;
+    while (root.rescheduleFromId && byId.has(root.rescheduleFromId)) {
+      root = byId.get(root.rescheduleFromId)!;
+    }
+    return root.id;
+  };
+
+  const current = new Map<string, TCalendarBooking>();
+  bookings.forEach(booking => {
+    const rootId = chainRoot(booking);
+    const existing = current.get(rootId);
+    const stands = booking.status !== BookingStatus.CANCELLED;
+    if (!existing || stands || existing.status === BookingStatus.CANCELLED) {
+      current.set(rootId, booking);
+    }
+  });
+
+  return buildCalendar(
+    [...current].map(([rootId, booking]) =>
+      toCalendarEvent(booking, rootId, role),
+    ),
+    { name: 'Training sessions' },
+  );
+};
+
+// Confirmation email with the session attached as an .ics file; a mail
+// failure never fails the booking
+const sendBookingConfirmationEmails = async (bookingId: string) => {
+  try {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      select: calendarBookingSelect,
+    });
+    if (!booking) return;
+
+    const recipients = [
+      {
+        role: UserRoleEnum.ATHLETE,
+        person: booking.athlete,
+        other: booking.coach,
+      },
+      {
+        role: UserRoleEnum.COACH,
+        person: booking.coach,
+        other: booking.athlete,
+      },
+    ];
+
+    for (const { role, person, other } of recipients) {
+      const ics = buildCalendar([toCalendarEvent(booking, booking.id, role)]);
+      const sessionTime = describeSessionTime(
+        booking.timeSlot?.startTime ?? booking.bookingDate,
+        resolveTimeZone(person.timezone, booking.coach.timezone),
+      );
+
+      await emailSender(
+        person.email,
+        generateBookingConfirmationEmail({
+          name: person.fullName,
+          withName: other.fullName,
+          sessionTime,
+          location:
+            booking.sessionMode === SessionMode.ONLINE
+              ? 'Online session, the join link is shared an hour before it starts'
+              : booking.locationName,
+        }),
+        'Your session is confirmed',
+        [
+          {
+            filename: 'session.ics',
+            content: ics,
+            contentType: 'text/calendar; charset=utf-8; method=PUBLISH',
+          },
+        ],
+      );
+    }
+  } catch (error) {
+    console.log('❌ Confirmation Email Error:', error);
+  }
+};
+
+// ==================== Recurring series ====================
+
+type TSeriesConflict = { date: string; startTime: Date; reason: string };
+
+// Same slot every week: one booking per occurrence, all validated up front
+const createSeries = async (req: Request) => {
+  const athleteEmail = req.user.email;
+  const {
+    coachId,
+    timeSlotId,
+    weeks,
+    notes,
+    locationName,
+    lon,
+    lat,
+    sessionMode,
+    useCredit = true,
+  } = req.body;
+
+  const athlete = await prisma.athlete.findUnique({
+    where: { email: athleteEmail },
+    include: { user: true },
+  });
+  if (!athlete) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Athlete not found');
+  }
+
+  const coach = await prisma.coach.findUnique({
+    where: { id: coachId },
+    include: { user: true },
+  });
+  if (!coach) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Coach not found');
+  }
+  const mode = pickSessionMode(coach.sessionModes, sessionMode);
+
+  const firstSlot = await prisma.timeSlot.findUnique({
+    where: { id: timeSlotId },
+    include: { availability: true },
+  });
+  if (!firstSlot) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Time slot not found');
+  }
+  if (firstSlot.availability.coachId !== coach.id) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Time slot does not belong to this coach',
+    );
+  }
+
+  // Every occurrence is the same wall-clock time in the coach's zone, so
+  // the series keeps its hour across DST changes
+  const coachTimeZone = resolveTimeZone(coach.timezone);
+  const { hour, minute } = getZonedParts(firstSlot.startTime, coachTimeZone);
+  const clockTime = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+
+  const now = new Date();
+  const conflicts: TSeriesConflict[] = [];
+  const occurrences: { id: string; startTime: Date; price: number }[] = [];
+
+  for (let week = 0; week < weeks; week++) {
+    const slotDate = addDays(firstSlot.availability.slotDate, week * 7);
+    const startTime = atTimeOfDay(slotDate, clockTime, coachTimeZone);
+    const date = slotDate.toISOString().split('T')[0];
+
+    const slot = await prisma.timeSlot.findFirst({
+      where: { startTime, availability: { coachId: coach.id, slotDate } },
+    });
+
+    const reason = await (async () => {
+      if (!slot) return 'Coach has no availability at this time';
+      if (slot.status !== 'ACTIVE') return 'Time slot is not active';
+      if (slot.startTime <= now) return 'Time slot is in the past';
+
+      const blackout = await prisma.coachBlackout.findFirst({
+        where: {
+          coachId: coach.id,
+          startAt: { lt: slot.endTime },
+          endAt: { gt: slot.startTime },
+        },
+      });
+      if (blackout) return 'Coach is unavailable during this time slot';
+
+      const ownBooking = await prisma.booking.findFirst({
+        where: {
+          timeSlotId: slot.id,
+          athleteId: athlete.id,
+          ...seatHoldingBookingWhere(),
+        },
+      });
+      if (ownBooking) return 'You already have a seat in this session';
+
+      await WaitlistServices.expireStaleOffers(slot.id);
+      const { takenSeats, openSeats } = await WaitlistServices.getSeatUse(
+        prisma,
+        slot.id,
+        athlete.id,
+      );
+      if (takenSeats >= slot.capacity) return 'Time slot is fully booked';
+      if (openSeats <= 0) {
+        return 'Time slot is reserved for a waitlisted athlete';
+      }
+
+      return null;
+    })();
+
+    if (reason || !slot) {
+      conflicts.push({ date, startTime, reason: reason as string });
+    } else {
+      occurrences.push({
+        id: slot.id,
+        startTime: slot.startTime,
+        price: slot.seatPrice ?? coach.price ?? 0,
+      });
+    }
+  }
+
+  // Nothing is booked unless every week is free
+  if (conflicts.length) {
+    return {
+      success: false,
+      message: `${conflicts.length} of ${weeks} weekly sessions cannot be booked`,
+      conflicts,
+    };
+  }
+
+  const holdExpiresAt = new Date(Date.now() + BOOKING_HOLD_MINUTES * 60 * 1000);
+  const pricePerSession = occurrences[0].price;
+
+  const { series, bookings } = await prisma.$transaction(async tx => {
+    const series = await tx.bookingSeries.create({
+      data: {
+        athleteId: athlete.id,
+        coachId: coach.id,
+        weeks,
+        pricePerSession,
+      },
+    });
+
+    const bookings = [];
+    for (const occurrence of occurrences) {
+      // Re-checked here: another athlete may have taken the seat meanwhile
+      const takenSeats = await tx.booking.count({
+        where: { timeSlotId: occurrence.id, ...seatHoldingBookingWhere() },
+      });
+      const slot = await tx.timeSlot.findUnique({
+        where: { id: occurrence.id },
+        select: { capacity: true },
+      });
+      if (!slot || takenSeats >= slot.capacity) {
+        throw new AppError(
+          httpStatus.CONFLICT,
+          `The session on ${describeSessionTime(occurrence.startTime, coachTimeZone)} was just booked. Please try again`,
+        );
+      }
+
+      const creditPurchase =
+        occurrence.price > 0 && useCredit
+          ? await PackageServices.consumeCredit(tx, athlete.id, coach.id)
+          : null;
+      const requiresPayment = occurrence.price > 0 && !creditPurchase;
+
+      bookings.push(
+        await tx.booking.create({
+          data: {
+            athleteId: athlete.id,
+            coachId: coach.id,
+            timeSlotId: occurrence.id,
+            bookingDate: occurrence.startTime,
+            status: requiresPayment
+              ? BookingStatus.PENDING_PAYMENT
+              : BookingStatus.CONFIRMED,
+            holdExpiresAt: requiresPayment ? holdExpiresAt : null,
+            creditPurchaseId: creditPurchase?.id,
+            seriesId: series.id,
+            seriesPrice: occurrence.price,
+            notes,
+            sessionMode: mode,
+            ...(mode === SessionMode.IN_PERSON && { lat, lon, locationName }),
+          },
+          include: {
+            timeSlot: { select: { id: true, startTime: true, endTime: true } },
+          },
+        }),
+      );
+
+      await syncSlotSeats(tx, occurrence.id);
+
+      const booking = bookings[bookings.length - 1];
+      await WaitlistServices.claimLiveOffer(
+        tx,
+        occurrence.id,
+        athlete.id,
+        booking.id,
+      );
+      await recordBookingEvent(tx, {
+        bookingId: booking.id,
+        type: BookingEventType.CREATED,
+        toStatus: booking.status,
+        actor: { id: athlete.user.id, role: UserRoleEnum.ATHLETE },
+        metadata: {
+          timeSlotId: occurrence.id,
+          seriesId: series.id,
+          creditPurchaseId: creditPurchase?.id ?? null,
+        },
+      });
+    }
+
+    return { series, bookings };
+  });
+
+  for (const booking of bookings) {
+    await assignMeetingRoom(booking.id);
+  }
+
+  // Occurrences covered by a credit are confirmed right away
+  const heldBookings = [];
+  for (const booking of bookings) {
+    if (booking.status === BookingStatus.PENDING_PAYMENT) {
+      heldBookings.push(booking);
+    } else {
+      await sendBookingConfirmationEmails(booking.id);
+    }
+  }
+
+  if (!heldBookings.length) {
+    await createNotification({
+      receiverId: coach.user.id,
+      senderId: athlete.user.id,
+      title: 'New Weekly Booking',
+      body: `${athlete.fullName} has booked ${weeks} weekly sessions with you starting ${describeSessionTime(occurrences[0].startTime, coachTimeZone)}`,
+    });
+    return {
+      success: true,
+      message: 'Weekly series booked successfully',
+      series,
+      bookings,
+    };
+  }
+
+  // One checkout for every occurrence not covered by a credit
+  try {
+    const checkout = await createSeriesCheckout(
+      series.id,
+      heldBookings.map(booking => booking.seriesPrice ?? pricePerSession),
+      athlete,
+      coach,
+    );
+    return {
+      success: true,
+      message: 'Weekly series reserved, complete the payment to confirm it',
+      series,
+      bookings: bookings.map(booking =>
+        booking.status === BookingStatus.PENDING_PAYMENT
+          ? { ...booking, holdExpiresAt: checkout.expiresAt }
+          : booking,
+      ),
+      checkout,
+    };
+  } catch (error) {
+    console.log('❌ Stripe Checkout Error:', error);
+    await prisma.payment.updateMany({
+      where: { seriesId: series.id, status: PaymentStatus.PENDING },
+      data: { status: PaymentStatus.CANCELED },
+    });
+    await releaseHeldSeries(series.id);
+    throw new AppError(
+      httpStatus.BAD_GATEWAY,
+      'Could not start payment for this series. Please try again.',
+    );
+  }
+};
+
+// One line per price, since the weeks of a series may cost different amounts
+const createSeriesCheckout = async (
+  seriesId: string,
+  sessionPrices: number[],
+  athlete: TCheckoutAthlete,
+  coach: { id: string; fullName: string },
+) => {
+  const customerId = await ensureStripeCustomer(athlete);
+  const amount =
+    Math.round(sessionPrices.reduce((sum, price) => sum + price, 0) * 100) /
+    100;
+
+  const sessionsByPrice = new Map<number, number>();
+  sessionPrices.forEach(price =>
+    sessionsByPrice.set(price, (sessionsByPrice.get(price) ?? 0) + 1),
+  );
+
+  const payment = await prisma.payment.create({
+    data: {
+      type: PaymentType.SESSION,
+      coachId: coach.id,
+      athleteId: athlete.id,
+      seriesId,
+      amount,
+      currency: 'usd',
+      status: PaymentStatus.PENDING,
+      stripeCustomerId: customerId,
+    },
+  });
+
+  const metadata = { paymentId: payment.id, seriesId };
+  const holdExpiresAt = await extendHolds({ seriesId });
+  const session = await stripe.checkout.sessions.create({
+    mode: 'payment',
+    customer: customerId,
+    line_items: [...sessionsByPrice].map(([price, quantity]) => ({
+      quantity,
+      price_data: {
+        currency: 'usd',
+        unit_amount: Math.round(price * 100),
+        product_data: {
+          name: `Weekly training session with ${coach.fullName}`,
+        },
+      },
+    })),
+    metadata,
+    payment_intent_data: { metadata },
+    expires_at: Math.floor(holdExpiresAt.getTime() / 1000),
+    success_url: `${config.base_url_client}/booking/payment-success?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${config.base_url_client}/booking/payment-cancel?session_id={CHECKOUT_SESSION_ID}`,
+  });
+
+  await prisma.payment.update({
+    where: { id: payment.id },
+    data: { stripeSessionId: session.id },
+  });
+
+  return {
+    paymentId: payment.id,
+    sessionId: session.id,
+    url: session.url,
+    amount,
+    currency: 'usd',
+    expiresAt: holdExpiresAt,
+  };
+};
+
+// Called from the Stripe webhook once the series payment succeeded. Each
+// held occurrence is confirmed while its seat is free; the others are
+// released and refunded with the ones cancelled before the payment came.
+const confirmPaidSeries = async (seriesId: string) => {
+  const series = await prisma.bookingSeries.findUnique({
+    where: { id: seriesId },
+    include: {
+      athlete: { include: { user: true } },
+      coach: { include: { user: true } },
+      bookings: {
+        where: { status: BookingStatus.PENDING_PAYMENT },
+        orderBy: { bookingDate: 'asc' },
+      },
+    },
+  });
+  if (!series) return series;
+
+  const confirmedIds = await prisma.$transaction(async tx => {
+    const confirmedIds: string[] = [];
+    for (const booking of series.bookings) {
+      if (!(await hasSeatForHold(tx, booking))) continue;
+
+      const { count } = await tx.booking.updateMany({
+        where: { id: booking.id, status: BookingStatus.PENDING_PAYMENT },
+        data: { status: BookingStatus.CONFIRMED, holdExpiresAt: null },
+      });
+      if (!count) continue;
+
+      if (booking.timeSlotId) await syncSlotSeats(tx, booking.timeSlotId);
+      await recordBookingEvent(tx, {
+        bookingId: booking.id,
+        type: BookingEventType.PAYMENT_CONFIRMED,
+        fromStatus: BookingStatus.PENDING_PAYMENT,
+        toStatus: BookingStatus.CONFIRMED,
+        metadata: { seriesId },
+      });
+      confirmedIds.push(booking.id);
+    }
+    return confirmedIds;
+  });
+
+  const confirmed = series.bookings.filter(booking =>
+    confirmedIds.includes(booking.id),
+  );
+  const lost = series.bookings.filter(
+    booking => !confirmedIds.includes(booking.id),
+  );
+  for (const booking of lost) {
+    await releaseHeldBooking(booking.id);
+  }
+  if (lost.length) await closeSeriesIfEmpty(seriesId);
+
+  if (confirmed.length) {
+    const firstSession = confirmed[0].bookingDate;
+    await createNotification({
+      receiverId: series.coach.user.id,
+      senderId: series.athlete.user.id,
+      title: 'New Weekly Booking',
+      body: `${series.athlete.fullName} has booked ${confirmed.length} weekly sessions with you starting ${describeSessionTime(firstSession, resolveTimeZone(series.coach.timezone))}`,
+    });
+    await createNotification({
+      receiverId: series.athlete.user.id,
+      senderId: series.coach.user.id,
+      title: 'Weekly Booking Confirmed',
+      body: `Your payment was received and your ${confirmed.length} weekly sessions with ${series.coach.fullName} starting ${describeSessionTime(firstSession, resolveTimeZone(series.athlete.timezone, series.coach.timezone))} are confirmed`,
+    });
+  }
+  if (lost.length) {
+    await createNotification({
+      receiverId: series.athlete.user.id,
+      senderId: series.coach.user.id,
+      title: 'Weekly Sessions Refunded',
+      body: `Your checkout closed before the payment arrived and ${lost.length} of your weekly sessions with ${series.coach.fullName} were booked by someone else meanwhile, so they have been refunded`,
+    });
+  }
+
+  for (const booking of confirmed) {
+    await sendBookingConfirmationEmails(booking.id);
+  }
+
+  await refundCancelledHolds(series.id, series.pricePerSession);
+
+  return series;
+};
+
+// Occurrences cancelled or released while the series checkout was still
+// open were paid for with it; their share goes back to the athlete
+const refundCancelledHolds = async (
+  seriesId: string,
+  pricePerSession: number,
+) => {
+  const cancelledHolds = await prisma.booking.findMany({
+    where: {
+      seriesId,
+      status: BookingStatus.CANCELLED,
+      creditPurchaseId: null,
+      events: {
+        some: {
+          type: {
+            in: [BookingEventType.CANCELLED, BookingEventType.HOLD_RELEASED],
+          },
+          fromStatus: BookingStatus.PENDING_PAYMENT,
+        },
+      },
+    },
+    select: { id: true, seriesPrice: true },
+  });
+  const payment = await prisma.payment.findFirst({
+    where: {
+      seriesId,
+      type: PaymentType.SESSION,
+      status: PaymentStatus.SUCCESS,
+    },
+  });
+  // Nothing is refunded from a series payment before this runs, so an
+  // earlier refund means a webhook retry found it already done
+  if (
+    !cancelledHolds.length ||
+    !payment?.stripePaymentId ||
+    payment.refundedAmount > 0
+  ) {
+    return null;
+  }
+
+  const amount =
+    Math.round(
+      cancelledHolds.reduce(
+        (sum, booking) => sum + (booking.seriesPrice ?? pricePerSession),
+        0,
+      ) * 100,
+    ) / 100;
+  const refundAmount = Math.min(
+    amount,
+    payment.amount - payment.refundedAmount,
+  );
+  if (refundAmount <= 0) return null;
+
+  try {
+    const refund = await stripe.refunds.create(
+      {
+        payment_intent: payment.stripePaymentId,
+        amount: Math.round(refundAmount * 100),
+        metadata: { paymentId: payment.id, seriesId },
+      },
+      { idempotencyKey: `series_cancelled_holds_refund_${payment.id}` },
+    );
+
+    const refundedAmount = payment.refundedAmount + refundAmount;
+    return await prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        refundedAmount,
+        stripeRefundId: refund.id,
+        refundedAt: new Date(),
+        status:
+          refundedAmount >= payment.amount
+            ? PaymentStatus.REFUNDED
+            : PaymentStatus.PARTIALLY_REFUNDED,
+      },
+    });
+  } catch (error) {
+    console.log('❌ Stripe Refund Error:', error);
+    return null;
+  }
+};
+
+// Release every occurrence still waiting for the series checkout
+const releaseHeldSeries = async (seriesId: string) => {
+  const held = await prisma.booking.findMany({
+    where: { seriesId, status: BookingStatus.PENDING_PAYMENT },
+    select: { id: true },
+  });
+
+  for (const booking of held) {
+    await releaseHeldBooking(booking.id);
+  }
+
+  await closeSeriesIfEmpty(seriesId);
+  return held.length;
+};
+
+// The series ends once none of its occurrences are left to attend
+const closeSeriesIfEmpty = async (seriesId: string) => {
+  const open = await prisma.booking.count({
+    where: {
+      seriesId,
+      status: {
+        in: [BookingStatus.PENDING_PAYMENT, ...ACTIVE_BOOKING_STATUSES],
+      },
+    },
+  });
+  if (open) return null;
+
+  return prisma.bookingSeries.updateMany({
+    where: { id: seriesId, status: BookingSeriesStatus.ACTIVE },
+    data: { status: BookingSeriesStatus.CANCELLED },
+  });
+};
+
+// Series with its occurrences, for either party
+const getSeries = async (
+  userEmail: string,
+  userRole: UserRoleEnum,
+  seriesId: string,
+) => {
+  const user =
+    userRole === UserRoleEnum.ATHLETE
+      ? await prisma.athlete.findUnique({ where: { email: userEmail } })
+      : await prisma.coach.findUnique({ where: { email: userEmail } });
+  if (!user) {
+    throw new AppError(httpStatus.NOT_FOUND, 'User not found');
+  }
+
+  const series = await prisma.bookingSeries.findUnique({
+    where: { id: seriesId },
+    include: {
+      athlete: {
+        select: { id: true, fullName: true, email: true, profile: true },
+      },
+      coach: {
+        select: {
+          id: true,
+          fullName: true,
+          email: true,
+          profile: true,
+          timezone: true,
+        },
+      },
+      bookings: {
+        select: {
+          id: true,
+          bookingDate: true,
+          status: true,
+          seriesPrice: true,
+          creditPurchaseId: true,
+          rescheduleFromId: true,
+          timeSlot: { select: { id: true, startTime: true, endTime: true } },
+        },
+        orderBy: { bookingDate: 'asc' },
+      },
+    },
+  });
+
+  const isParty =
+    (userRole === UserRoleEnum.ATHLETE && series?.athleteId === user.id) ||
+    (userRole === UserRoleEnum.COACH && series?.coachId === user.id);
+  if (!series || !isParty) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Booking series not found');
+  }
+
+  const timezone = resolveTimeZone(user.timezone, series.coach.timezone);
+  return {
+    ...series,
+    timezone,
+    bookings: series.bookings.map(booking => ({
+      ...booking,
+      sessionTime: booking.timeSlot
+        ? formatSlotTimes(booking.timeSlot, timezone)
+        : null,
+    })),
+  };
+};
+
+// Cancel one occurrence, it and every later one, or the whole series.
+// Each occurrence goes through the regular cancellation (policy, refund,
+// credit, waitlist); one that fails does not stop the others.
+const cancelSeries = async (
+  userEmail: string,
+  userRole: UserRoleEnum,
+  seriesId: string,
+  payload: { scope: TSeriesCancelScope; bookingId?: string; reason?: string },
+) => {
+  const series = await getSeries(userEmail, userRole, seriesId);
+
+  const openBookings = series.bookings.filter(
+    booking =>
+      booking.status === BookingStatus.PENDING_PAYMENT ||
+      ACTIVE_BOOKING_STATUSES.includes(booking.status),
+  );
+
+  let targets = openBookings;
+  if (payload.scope !== 'ALL') {
+    const anchor = series.bookings.find(
+      booking => booking.id === payload.bookingId,
+    );
+    if (!anchor) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        'bookingId must be an occurrence of this series',
+      );
+    }
+    targets =
+      payload.scope === 'SINGLE'
+        ? openBookings.filter(booking => booking.id === anchor.id)
+        : openBookings.filter(
+            booking => booking.bookingDate >= anchor.bookingDate,
+          );
+  }
+
+  if (!targets.length) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'No upcoming sessions left to cancel in this series',
+    );
+  }
+
+  const cancelled = [];
+  const failed = [];
+  for (const booking of targets) {
+    try {
+      cancelled.push(
+        await cancelBooking(userEmail, userRole, booking.id, payload.reason),
+      );
+    } catch (error) {
+      failed.push({
+        bookingId: booking.id,
+        bookingDate: booking.bookingDate,
+        message: error instanceof Error ? error.message : 'Cancel failed',
+      });
+    }
+  }
+
+  await closeSeriesIfEmpty(seriesId);
+
+  return { seriesId, scope: payload.scope, cancelled, failed };
+};
+
 export const BookingServices = {
   createIntoDb,
   getAllBooking,
@@ -1464,5 +3815,21 @@ export const BookingServices = {
   respondToReschedule,
   requestReschedule,
   cancelBooking,
+  reconcileRefundedCharge,
+  getCancellationPreview,
   finishBooking,
+  markNoShow,
+  getCheckInCode,
+  checkInBooking,
+  getBookingTimeline,
+  getMyCalendarFeed,
+  resetMyCalendarFeed,
+  getCalendarFeed,
+  confirmPaidBooking,
+  releaseHeldBooking,
+  createSeries,
+  getSeries,
+  cancelSeries,
+  confirmPaidSeries,
+  releaseHeldSeries,
 };
@@ -1,4 +1,10 @@
 import { z } from "zod";
+import { SessionMode } from "@prisma/client";
+import {
+  MAX_SERIES_WEEKS,
+  MIN_SERIES_WEEKS,
+  SERIES_CANCEL_SCOPES,
+} from "./Booking.constants";
 
 const createBookingZodSchema = z.object({
   body: z.object({
@@ -13,7 +19,45 @@ const updateBookingZodSchema = z.object({
   }),
 });
 
+const createSeriesZodSchema = z.object({
+  body: z.object({
+    coachId: z.string({ required_error: "coachId is required" }),
+    timeSlotId: z.string({ required_error: "timeSlotId is required" }),
+    weeks: z.number().int().min(MIN_SERIES_WEEKS).max(MAX_SERIES_WEEKS),
+    notes: z.string().optional(),
+    locationName: z.string().optional(),
+    lon: z.number().optional(),
+    lat: z.number().optional(),
+    sessionMode: z.nativeEnum(SessionMode).optional(),
+    useCredit: z.boolean().optional(),
+  }),
+});
+
+const cancelSeriesZodSchema = z.object({
+  body: z
+    .object({
+      scope: z.enum(SERIES_CANCEL_SCOPES),
+      bookingId: z.string().optional(),
+      reason: z.string().optional(),
+    })
+    .refine(body => body.scope === "ALL" || !!body.bookingId, {
+      message: "bookingId is required to cancel one or future sessions",
+      path: ["bookingId"],
+    }),
+});
+
+const checkInZodSchema = z.object({
+  body: z.object({
+    code: z.string({ required_error: "Check-in code is required" }).min(1),
+    lat: z.number().min(-90).max(90).optional(),
+    lon: z.number().min(-180).max(180).optional(),
+  }),
+});
+
 export const BookingValidation = {
   createBookingZodSchema,
   updateBookingZodSchema,
+  createSeriesZodSchema,
+  cancelSeriesZodSchema,
+  checkInZodSchema,
 };
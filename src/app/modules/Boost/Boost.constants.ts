@@ -0,0 +1,18 @@
+import config from '../../../config';
+
+// Lengths a boost can be bought for, in days
+export const BOOST_DURATIONS = [7, 14, 30];
+
+// Boosted coaches allowed at once in one specialty and area, so featured
+// placement keeps its value
+export const MAX_BOOSTS_PER_AREA = 3;
+
+// A pending checkout holds its spot this long (Stripe needs at least 30)
+export const BOOST_CHECKOUT_MINUTES = 35;
+
+export const getBoostPrice = (durationDays: number) =>
+  Math.round(durationDays * config.boost.daily_price * 100) / 100;
+
+// Area key the cap is counted in: the coach's location, case-insensitive
+export const toBoostArea = (location?: string | null) =>
+  (location ?? '').trim().toLowerCase();
@@ -0,0 +1,47 @@
+import catchAsync from '../../utils/catchAsync';
+import sendResponse from '../../utils/sendResponse';
+import httpStatus from 'http-status';
+import { Request, Response } from 'express';
+import { BoostServices } from './Boost.service';
+
+const getBoostOptions = catchAsync(async (req: Request, res: Response) => {
+  const result = await BoostServices.getBoostOptions(req.user.email);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Boost options retrieved successfully',
+    data: result,
+  });
+});
+
+const purchaseBoost = catchAsync(async (req: Request, res: Response) => {
+  const result = await BoostServices.purchaseBoost(
+    req.user.email,
+    req.body.durationDays,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.CREATED,
+    success: true,
+    message: 'Checkout created, complete the payment to start the boost',
+    data: result,
+  });
+});
+
+const getMyBoosts = catchAsync(async (req: Request, res: Response) => {
+  const result = await BoostServices.getMyBoosts(req.user.email);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Boosts retrieved successfully',
+    data: result,
+  });
+});
+
+export const BoostController = {
+  getBoostOptions,
+  purchaseBoost,
+  getMyBoosts,
+};
@@ -0,0 +1,23 @@
+import express from 'express';
+import { BoostController } from './Boost.controller';
+import auth from '../../middlewares/auth';
+import validateRequest from '../../middlewares/validateRequest';
+import { BoostValidation } from './Boost.validation';
+import { UserRoleEnum } from '@prisma/client';
+
+const router = express.Router();
+
+router.get(
+  '/options',
+  auth(UserRoleEnum.COACH),
+  BoostController.getBoostOptions,
+);
+router.get('/my', auth(UserRoleEnum.COACH), BoostController.getMyBoosts);
+router.post(
+  '/purchase',
+  auth(UserRoleEnum.COACH),
+  validateRequest.body(BoostValidation.purchaseBoostZodSchema),
+  BoostController.purchaseBoost,
+);
+
+export const BoostRoutes = router;
@@ -0,0 +1,404 @@
+import httpStatus from 'http-status';
+import {
+  BoostStatus,
+  PaymentStatus,
+  PaymentType,
+  Prisma,
+} from '@prisma/client';
+import { prisma } from '../../utils/prisma';
+import { stripe } from '../../utils/stripe';
+import AppError from '../../errors/AppError';
+import config from '../../../config';
+import { createNotification } from '../../middlewares/notify';
+import {
+  BOOST_CHECKOUT_MINUTES,
+  BOOST_DURATIONS,
+  getBoostPrice,
+  MAX_BOOSTS_PER_AREA,
+  toBoostArea,
+} from './Boost.constants';
+
+const JOB_BATCH_SIZE = 100;
+
+const getCoachByMail = async (coachMail: string) => {
+  const coach = await prisma.coach.findUnique({ where: { email: coachMail } });
+  if (!coach) throw new AppError(httpStatus.NOT_FOUND, 'Coach not found');
+  return coach;
+};
+
+// Boosts that hold a featured spot: running ones and checkouts still open
+const spotTakenWhere = (): Prisma.CoachBoostWhereInput => ({
+  OR: [
+    { status: BoostStatus.ACTIVE },
+    {
+      status: BoostStatus.PENDING,
+      createdAt: {
+        gt: new Date(Date.now() - BOOST_CHECKOUT_MINUTES * 60 * 1000),
+      },
+    },
+  ],
+});
+
+const takenSpotsWhere = (specialtyId: string, area: string) => ({
+  specialtyId,
+  area,
+  ...spotTakenWhere(),
+});
+
+// Takes a spot for the boost inside the transaction, or fails when the
+// specialty and area are full
+const takeSpot = async (
+  tx: Prisma.TransactionClient,
+  specialtyId: string,
+  area: string,
+) => {
+  const taken = await tx.coachBoost.count({
+    where: takenSpotsWhere(specialtyId, area),
+  });
+  if (taken >= MAX_BOOSTS_PER_AREA) {
+    throw new AppError(
+      httpStatus.CONFLICT,
+      'All featured spots for your specialty and area are taken. Try again once one frees up.',
+    );
+  }
+
+  await tx.boostArea.upsert({
+    where: { specialtyId_area: { specialtyId, area } },
+    create: { specialtyId, area, takenSpots: taken + 1 },
+    update: { takenSpots: taken + 1 },
+  });
+};
+
+// Durations with their price, and the spots still free in the coach's
+// specialty and area
+const getBoostOptions = async (coachMail: string) => {
+  const coach = await getCoachByMail(coachMail);
+  const area = toBoostArea(coach.location);
+  const taken = area
+    ? await prisma.coachBoost.count({
+        where: takenSpotsWhere(coach.specialtyId, area),
+      })
+    : MAX_BOOSTS_PER_AREA;
+
+  return {
+    locationRequired: !area,
+    spotsLeft: Math.max(MAX_BOOSTS_PER_AREA - taken, 0),
+    options: BOOST_DURATIONS.map(durationDays => ({
+      durationDays,
+      price: getBoostPrice(durationDays),
+      currency: 'usd',
+    })),
+  };
+};
+
+// Pending boost + Stripe checkout; the placement starts from the webhook
+const purchaseBoost = async (coachMail: string, durationDays: number) => {
+  const coach = await getCoachByMail(coachMail);
+
+  const current = await prisma.coachBoost.findFirst({
+    where: { coachId: coach.id, ...spotTakenWhere() },
+  });
+  if (current) {
+    throw new AppError(
+      httpStatus.CONFLICT,
+      current.status === BoostStatus.ACTIVE
+        ? `Your boost is running until ${current.endsAt?.toISOString()}`
+        : 'A boost checkout is already in progress',
+    );
+  }
+
+  // The cap is counted per area, so coaches without one cannot take part
+  const area = toBoostArea(coach.location);
+  if (!area) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Add your location to your profile before buying a boost',
+    );
+  }
+
+  // 1️⃣ Ensure Stripe Customer Exists
+  let customerId = coach.stripeCustomerId;
+  if (!customerId) {
+    const customer = await stripe.customers.create({
+      email: coach.email,
+      name: coach.fullName,
+      metadata: { coachId: coach.id },
+    });
+    customerId = customer.id;
+    await prisma.coach.update({
+      where: { id: coach.id },
+      data: { stripeCustomerId: customerId },
+    });
+  }
+
+  // 2️⃣ Pending boost and payment (the boost holds its spot meanwhile)
+  const price = getBoostPrice(durationDays);
+  const boost = await prisma.$transaction(async tx => {
+    await takeSpot(tx, coach.specialtyId, area);
+    return tx.coachBoost.create({
+      data: {
+        coachId: coach.id,
+        specialtyId: coach.specialtyId,
+        area,
+        durationDays,
+        pricePaid: price,
+      },
+    });
+  });
+
+  const payment = await prisma.payment.create({
+    data: {
+      type: PaymentType.BOOST,
+      coachId: coach.id,
+      boostId: boost.id,
+      amount: price,
+      currency: 'usd',
+      status: PaymentStatus.PENDING,
+      stripeCustomerId: customerId,
+    },
+  });
+
+  // 3️⃣ Checkout Session, expiring when the held spot is released
+  try {
+    const metadata = { paymentId: payment.id, boostId: boost.id };
+    const session = await stripe.checkout.sessions.create({
+      mode: 'payment',
+      customer: customerId,
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency: 'usd',
+            unit_amount: Math.round(price * 100),
+            product_data: {
+              name: 'Featured placement',
+              description: `Listed first in the coach search for ${durationDays} days`,
+            },
+          },
+        },
+      ],
+      metadata,
+      payment_intent_data: { metadata },
+      expires_at: Math.floor(
+        (boost.createdAt.getTime() + BOOST_CHECKOUT_MINUTES * 60 * 1000) / 1000,
+      ),
+      success_url: `${config.base_url_client}/boost/payment-success?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${config.base_url_client}/boost/payment-cancel?session_id={CHECKOUT_SESSION_ID}`,
+    });
+
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { stripeSessionId: session.id },
+    });
+
+    return {
+      boostId: boost.id,
+      paymentId: payment.id,
+      sessionId: session.id,
+      url: session.url,
+      amount: price,
+      currency: 'usd',
+    };
+  } catch (error) {
+    console.log('❌ Stripe Checkout Error:', error);
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { status: PaymentStatus.CANCELED },
+    });
+    await cancelPendingBoost(boost.id);
+    throw new AppError(
+      httpStatus.BAD_GATEWAY,
+      'Could not start payment for the boost. Please try again.',
+    );
+  }
+};
+
+// Called from the Stripe webhook once the boost payment succeeded. A paid
+// checkout whose spot was released meanwhile (expired hold, failed first
+// attempt) starts only if a spot is still free; otherwise it is refunded.
+const activateBoost = async (boostId: string) => {
+  const boost = await prisma.coachBoost.findUnique({
+    where: { id: boostId },
+    include: { coach: { include: { user: { select: { id: true } } } } },
+  });
+
+  // Webhook retries
+  if (
+    !boost ||
+    (boost.status !== BoostStatus.PENDING &&
+      boost.status !== BoostStatus.CANCELED)
+  ) {
+    return boost;
+  }
+
+  const holdsSpot =
+    boost.status === BoostStatus.PENDING &&
+    boost.createdAt.getTime() > Date.now() - BOOST_CHECKOUT_MINUTES * 60 * 1000;
+
+  const startsAt = new Date();
+  const endsAt = new Date(
+    startsAt.getTime() + boost.durationDays * 24 * 60 * 60 * 1000,
+  );
+  let activated;
+  try {
+    activated = await prisma.$transaction(async tx => {
+      if (!holdsSpot) await takeSpot(tx, boost.specialtyId, boost.area);
+
+      const activated = await tx.coachBoost.update({
+        where: { id: boostId },
+        data: { status: BoostStatus.ACTIVE, startsAt, endsAt },
+      });
+      await tx.coach.update({
+        where: { id: boost.coachId },
+        data: { isRecommendedPayment: true, recommendedTime: endsAt },
+      });
+      return activated;
+    });
+  } catch (error) {
+    if (!(error instanceof AppError)) throw error;
+    await cancelPendingBoost(boostId);
+    await refundUnplacedBoost(boost);
+    return boost;
+  }
+
+  await createNotification({
+    receiverId: boost.coach.user.id,
+    senderId: boost.coach.user.id,
+    title: 'Boost Started',
+    body: `You are featured at the top of the coach search for the next ${boost.durationDays} days.`,
+  });
+
+  return activated;
+};
+
+// Payment for a boost that found every spot taken goes back to the coach
+const refundUnplacedBoost = async (boost: {
+  id: string;
+  coach: { user: { id: string } };
+}) => {
+  const payment = await prisma.payment.findFirst({
+    where: { boostId: boost.id, status: PaymentStatus.SUCCESS },
+  });
+  if (!payment?.stripePaymentId) return null;
+
+  const refund = await stripe.refunds.create(
+    {
+      payment_intent: payment.stripePaymentId,
+      metadata: { paymentId: payment.id, boostId: boost.id },
+    },
+    { idempotencyKey: `boost_refund_${payment.id}` },
+  );
+  const refunded = await prisma.payment.update({
+    where: { id: payment.id },
+    data: {
+      status: PaymentStatus.REFUNDED,
+      refundedAmount: payment.amount,
+      stripeRefundId: refund.id,
+      refundedAt: new Date(),
+    },
+  });
+
+  await createNotification({
+    receiverId: boost.coach.user.id,
+    senderId: boost.coach.user.id,
+    title: 'Boost Refunded',
+    body: 'All featured spots for your specialty and area were taken by the time your payment arrived, so it has been refunded.',
+  });
+
+  return refunded;
+};
+
+const cancelPendingBoost = (boostId: string) =>
+  prisma.coachBoost.updateMany({
+    where: { id: boostId, status: BoostStatus.PENDING },
+    data: { status: BoostStatus.CANCELED },
+  });
+
+// Job: ends boosts whose period is over and releases spots held by
+// checkouts that were never finished
+const expireBoosts = async () => {
+  const now = new Date();
+  const ended = await prisma.coachBoost.findMany({
+    where: { status: BoostStatus.ACTIVE, endsAt: { lte: now } },
+    include: { coach: { include: { user: { select: { id: true } } } } },
+    take: JOB_BATCH_SIZE,
+  });
+
+  let expired = 0;
+  for (const boost of ended) {
+    const { count } = await prisma.coachBoost.updateMany({
+      where: { id: boost.id, status: BoostStatus.ACTIVE },
+      data: { status: BoostStatus.EXPIRED },
+    });
+    if (!count) continue;
+
+    await prisma.coach.update({
+      where: { id: boost.coachId },
+      data: { isRecommendedPayment: false, recommendedTime: null },
+    });
+    await createNotification({
+      receiverId: boost.coach.user.id,
+      senderId: boost.coach.user.id,
+      title: 'Boost Ended',
+      body: `Your featured placement has ended. You were listed ${boost.impressions} times and your profile was opened ${boost.clicks} times.`,
+    });
+    expired++;
+  }
+
+  await prisma.coachBoost.updateMany({
+    where: {
+      status: BoostStatus.PENDING,
+      createdAt: {
+        lte: new Date(now.getTime() - BOOST_CHECKOUT_MINUTES * 60 * 1000),
+      },
+    },
+    data: { status: BoostStatus.CANCELED },
+  });
+
+  return expired;
+};
+
+// Search listings of boosted coaches count as impressions...
+const recordImpressions = (coachIds: string[]) =>
+  prisma.coachBoost.updateMany({
+    where: { coachId: { in: coachIds }, status: BoostStatus.ACTIVE },
+    data: { impressions: { increment: 1 } },
+  });
+
+// ...and profile views as clicks
+const recordClick = (coachId: string) =>
+  prisma.coachBoost.updateMany({
+    where: { coachId, status: BoostStatus.ACTIVE },
+    data: { clicks: { increment: 1 } },
+  });
+
+// Report per boost period: impressions, clicks and click-through rate
+const getMyBoosts = async (coachMail: string) => {
+  const coach = await getCoachByMail(coachMail);
+
+  const boosts = await prisma.coachBoost.findMany({
+    where: {
+      coachId: coach.id,
+      status: { in: [BoostStatus.ACTIVE, BoostStatus.EXPIRED] },
+    },
+    orderBy: { startsAt: 'desc' },
+  });
+
+  return boosts.map(boost => ({
+    ...boost,
+    clickThroughRate: boost.impressions
+      ? parseFloat(((boost.clicks / boost.impressions) * 100).toFixed(2))
+      : 0,
+  }));
+};
+
+export const BoostServices = {
+  getBoostOptions,
+  purchaseBoost,
+  activateBoost,
+  cancelPendingBoost,
+  expireBoosts,
+  recordImpressions,
+  recordClick,
+  getMyBoosts,
+};
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { BOOST_DURATIONS } from './Boost.constants';
+
+const purchaseBoostZodSchema = z.object({
+  body: z.object({
+    durationDays: z
+      .number()
+      .int()
+      .refine(days => BOOST_DURATIONS.includes(days), {
+        message: `durationDays must be one of ${BOOST_DURATIONS.join(', ')}`,
+      }),
+  }),
+});
+
+export const BoostValidation = {
+  purchaseBoostZodSchema,
+};
@@ -1,7 +1,122 @@
-import { formatTimeWithAMPM } from "../Schedule/Schedule.constants";
+import {
+  formatClockTime,
+  formatTimeWithAMPM,
+} from '../Schedule/Schedule.constants';
+import { tokenize } from '../../utils/search';
+
+// Radius search: used when no radiusKm is given, and the largest allowed
+export const DEFAULT_SEARCH_RADIUS_KM = 25;
+export const MAX_SEARCH_RADIUS_KM = 500;
+
+// Coach search sort options with their default direction
+export const COACH_SORT_OPTIONS = {
+  rating: 'desc',
+  price: 'asc',
+  experience: 'desc',
+  distance: 'asc',
+  newest: 'desc',
+  soonest: 'asc', // Next open slot; availability search only
+  relevance: 'desc', // Text match; searchTerm only
+} as const;
+export type TCoachSort = keyof typeof COACH_SORT_OPTIONS;
+
+export const MAX_SEARCH_PAGE_SIZE = 50;
+
+// How long the list of indexed search terms is reused between searches
+export const SEARCH_TERMS_CACHE_SECONDS = 60;
+
+// Text search: how much a match counts in each profile field
+const SEARCH_FIELD_WEIGHTS = {
+  fullName: 3,
+  specialty: 3,
+  expertise: 2,
+  location: 1.5,
+  certification: 1,
+  bio: 1,
+};
+
+// Profile fields the search terms are built from
+export const COACH_SEARCH_FIELDS = [
+  'fullName',
+  'bio',
+  'expertise',
+  'certification',
+  'location',
+  'specialtyId',
+];
+
+// Terms stored on the coach for the text search, each with the weight of
+// the strongest field it appears in
+export const buildSearchTerms = (coach: {
+  fullName: string;
+  bio?: string | null;
+  expertise: string[];
+  certification?: string | null;
+  location?: string | null;
+  specialty?: { title: string } | null;
+}) => {
+  const fields: [string | null | undefined, number][] = [
+    [coach.fullName, SEARCH_FIELD_WEIGHTS.fullName],
+    [coach.specialty?.title, SEARCH_FIELD_WEIGHTS.specialty],
+    [coach.expertise.join(' '), SEARCH_FIELD_WEIGHTS.expertise],
+    [coach.location, SEARCH_FIELD_WEIGHTS.location],
+    // Uploaded certificates are stored as a link, which is not searchable
+    [
+      /^https?:\/\//.test(coach.certification ?? '')
+        ? null
+        : coach.certification,
+      SEARCH_FIELD_WEIGHTS.certification,
+    ],
+    [coach.bio, SEARCH_FIELD_WEIGHTS.bio],
+  ];
+
+  const weights = new Map<string, number>();
+  fields.forEach(([text, weight]) =>
+    tokenize(text).forEach(term =>
+      weights.set(term, Math.max(weights.get(term) ?? 0, weight)),
+    ),
+  );
+  return [...weights].map(([term, weight]) => ({ term, weight }));
+};
+
+// Recommendations: points each signal adds to a coach's score
+export const RECOMMENDATION_WEIGHTS = {
+  category: 3, // Specialty is one of the athlete's categories
+  bookedSpecialty: 2.5, // Specialty the athlete booked before
+  favorite: 2,
+  bookedCoach: 1.5, // Trained with the coach before
+  rating: 2, // Scaled by the rating and by how many reviews back it
+  proximity: 1.5, // Full points next door, none at twice the default radius
+  price: 1, // Full points at the athlete's usual price
+};
+export const DEFAULT_RECOMMENDATIONS = 10;
+export const MAX_RECOMMENDATIONS = 30;
+
+// Facet counts returned with the search: price bands (lower bounds; the
+// last one is open-ended) and minimum-rating bands
+export const PRICE_BAND_BOUNDARIES = [0, 25, 50, 100, 200];
+export const RATING_BANDS = [4.5, 4, 3, 2];
+
+// Availability search: window used when only availableFrom is given, the
+// longest window allowed and how many open slots are listed per coach
+export const DEFAULT_AVAILABILITY_WINDOW_DAYS = 7;
+export const MAX_AVAILABILITY_WINDOW_DAYS = 31;
+export const DEFAULT_SLOTS_PER_COACH = 3;
+export const MAX_SLOTS_PER_COACH = 10;
+
+// GeoJSON point kept next to latitude/longitude for the 2dsphere index;
+// null while either coordinate is missing
+export const toGeoPoint = (
+  latitude?: number | null,
+  longitude?: number | null,
+) =>
+  latitude == null || longitude == null
+    ? null
+    : { type: 'Point', coordinates: [longitude, latitude] };
 
 export const getWeeklySchedule = (
   availabilities: any[],
+  timeZone?: string,
 ): Record<string, string> => {
   const days = [
     'Sunday',
@@ -25,13 +140,13 @@ export const getWeeklySchedule = (
   };
 
   for (const availability of availabilities) {
+    // slotDate is UTC midnight of the coach's local date
     const date = new Date(availability.slotDate);
-    const dayOfWeekIndex = date.getDay();
+    const dayOfWeekIndex = date.getUTCDay();
     const dayName = days[dayOfWeekIndex];
 
-    // Assuming formatTimeWithAMPM is available globally or imported
-    const startTime = formatTimeWithAMPM(availability.startTime);
-    const endTime = formatTimeWithAMPM(availability.endTime);
+    const startTime = formatTimeWithAMPM(availability.startTime, timeZone);
+    const endTime = formatTimeWithAMPM(availability.endTime, timeZone);
 
     const timeRange = `${startTime} - ${endTime}`;
     weeklySchedule[dayName] = timeRange;
@@ -55,3 +170,36 @@ export const getWeeklySchedule = (
 
   return orderedSchedule;
 };
+
+// Weekly schedule straight from the coach's recurring template
+export const getWeeklyScheduleFromTemplate = (
+  windows: { dayOfWeek: number; startTime: string; endTime: string }[],
+): Record<string, string> => {
+  const days = [
+    'Sunday',
+    'Monday',
+    'Tuesday',
+    'Wednesday',
+    'Thursday',
+    'Friday',
+    'Saturday',
+  ];
+
+  // Start from Monday like getWeeklySchedule
+  const orderedSchedule: Record<string, string> = {};
+  [1, 2, 3, 4, 5, 6, 0].forEach(dayIndex => {
+    const ranges = windows
+      .filter(window => window.dayOfWeek === dayIndex)
+      .sort((a, b) => a.startTime.localeCompare(b.startTime))
+      .map(
+        window =>
+          `${formatClockTime(window.startTime)} - ${formatClockTime(window.endTime)}`,
+      );
+
+    orderedSchedule[days[dayIndex]] = ranges.length
+      ? ranges.join(', ')
+      : 'Not Available';
+  });
+
+  return orderedSchedule;
+};
@@ -3,18 +3,39 @@ import httpStatus from 'http-status';
 import sendResponse from '../../utils/sendResponse';
 import { Request, Response } from 'express';
 import { CoachServices } from './Coach.service';
+import { CoachRecommendations } from './Coach.recommendations';
 
 const getAllCoach = catchAsync(async (req: Request, res: Response) => {
-  const result = await CoachServices.getAllCoach(req.query,req.user.email);
+  const result = await CoachServices.getAllCoach(
+    req.query,
+    req.user.email,
+    req.user.role,
+  );
   sendResponse(res, {
     statusCode: httpStatus.OK,
     success: true,
     message: 'Successfully retrieved all Coach',
     data: result.data,
     meta: result.meta,
+    facets: result.facets,
   });
 });
 
+const getRecommendedCoaches = catchAsync(
+  async (req: Request, res: Response) => {
+    const result = await CoachRecommendations.getRecommendedCoaches(
+      req.user.email,
+      req.query,
+    );
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      success: true,
+      message: 'Successfully retrieved recommended coaches',
+      data: result,
+    });
+  },
+);
+
 const getMyCoach = catchAsync(async (req: Request, res: Response) => {
   const result = await CoachServices.getMyCoachAndAthlete(req.user.email);
   sendResponse(res, {
@@ -27,7 +48,11 @@ const getMyCoach = catchAsync(async (req: Request, res: Response) => {
 
 const getCoachById = catchAsync(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const result = await CoachServices.getCoachByIdFromDB(id,req.user.email);
+  const result = await CoachServices.getCoachByIdFromDB(
+    id,
+    req.user.email,
+    req.user.role,
+  );
   sendResponse(res, {
     statusCode: httpStatus.OK,
     success: true,
@@ -60,10 +85,27 @@ const updateIntoDb = catchAsync(async (req: Request, res: Response) => {
   });
 });
 
+const updateCancellationPolicy = catchAsync(
+  async (req: Request, res: Response) => {
+    const result = await CoachServices.updateCancellationPolicy(
+      req.user.email,
+      req.body.rules,
+    );
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      success: true,
+      message: 'Cancellation policy updated',
+      data: result,
+    });
+  },
+);
+
 export const CoachController = {
   getAllCoach,
+  getRecommendedCoaches,
   getMyCoach,
   getCoachById,
   updateIntoDb,
   getSpecifiCoacheSlotByDate,
+  updateCancellationPolicy,
 };
@@ -0,0 +1,308 @@
+import { BookingStatus, SessionMode } from '@prisma/client';
+import httpStatus from 'http-status';
+import AppError from '../../errors/AppError';
+import { prisma } from '../../utils/prisma';
+import { tokenize } from '../../utils/search';
+import { distanceInMeters } from '../Booking/Booking.constants';
+import {
+  DEFAULT_RECOMMENDATIONS,
+  DEFAULT_SEARCH_RADIUS_KM,
+  MAX_RECOMMENDATIONS,
+  RECOMMENDATION_WEIGHTS,
+} from './Coach.constant';
+
+// Sessions that say what the athlete trains (held or cancelled ones do not)
+const TRAINED_STATUSES: BookingStatus[] = [
+  BookingStatus.CONFIRMED,
+  BookingStatus.RESCHEDULED_ACCEPTED,
+  BookingStatus.FINISHED,
+];
+
+const BOOKING_HISTORY_SIZE = 50;
+const CANDIDATE_POOL_SIZE = 100;
+const MAX_REASONS = 3;
+
+const coachSelect = {
+  id: true,
+  fullName: true,
+  email: true,
+  profile: true,
+  experience: true,
+  location: true,
+  expertise: true,
+  latitude: true,
+  longitude: true,
+  price: true,
+  sessionModes: true,
+  gender: true,
+  avgRating: true,
+  totalReviews: true,
+  specialtyId: true,
+  specialty: { select: { id: true, title: true } },
+} as const;
+
+const median = (values: number[]) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Coaches for the "recommended for you" section, scored on what the athlete
+// trains (categories, past bookings), favorites, ratings, distance and the
+// price they usually pay. Each coach carries the reasons behind its score.
+const getRecommendedCoaches = async (
+  athleteEmail: string,
+  query: Record<string, any>,
+) => {
+  const athlete = await prisma.athlete.findUnique({
+    where: { email: athleteEmail },
+    select: { id: true, category: true },
+  });
+  if (!athlete) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Athlete not found');
+  }
+
+  const limit = Math.min(
+    Math.max(parseInt(query.limit) || DEFAULT_RECOMMENDATIONS, 1),
+    MAX_RECOMMENDATIONS,
+  );
+
+  const [bookings, favorites, specialties] = await Promise.all([
+    prisma.booking.findMany({
+      where: { athleteId: athlete.id, status: { in: TRAINED_STATUSES } },
+      select: {
+        coachId: true,
+        lat: true,
+        lon: true,
+        timeSlot: { select: { seatPrice: true } },
+        coach: {
+          select: {
+            price: true,
+            specialty: { select: { id: true, title: true } },
+          },
+        },
+      },
+      orderBy: { bookingDate: 'desc' },
+      take: BOOKING_HISTORY_SIZE,
+    }),
+    prisma.favorite.findMany({
+      where: { athleteEmail, isFavorite: true },
+      select: { coachEmail: true },
+    }),
+    prisma.specialties.findMany({
+      where: { isActive: true },
+      select: { id: true, title: true },
+    }),
+  ]);
+
+  // What the athlete trains: the categories picked at registration...
+  const categoryByToken = new Map<string, string>();
+  athlete.category.forEach(category =>
+    tokenize(category).forEach(token => categoryByToken.set(token, category)),
+  );
+  const categorySpecialtyIds = specialties
+    .filter(specialty =>
+      tokenize(specialty.title).some(token => categoryByToken.has(token)),
+    )
+    .map(specialty => specialty.id);
+
+  // ...and the sessions they booked
+  const bookedSpecialties = new Map<string, string>();
+  const sessionsByCoach = new Map<string, number>();
+  bookings.forEach(booking => {
+    const { specialty } = booking.coach;
+    if (specialty) bookedSpecialties.set(specialty.id, specialty.title);
+    sessionsByCoach.set(
+      booking.coachId,
+      (sessionsByCoach.get(booking.coachId) ?? 0) + 1,
+    );
+  });
+  const usualPrice = median(
+    bookings
+      .map(booking => booking.timeSlot?.seatPrice ?? booking.coach.price)
+      .filter((price): price is number => price != null && price > 0),
+  );
+  const favoriteEmails = new Set(
+    favorites.map(favorite => favorite.coachEmail),
+  );
+
+  // Distance from ?lat=&lng=, else from where the last session took place
+  const lastLocated = bookings.find(
+    booking => booking.lat != null && booking.lon != null,
+  );
+  const queryPoint = { lat: parseFloat(query.lat), lon: parseFloat(query.lng) };
+  const origin =
+    Math.abs(queryPoint.lat) <= 90 && Math.abs(queryPoint.lon) <= 180
+      ? queryPoint
+      : lastLocated
+        ? { lat: lastLocated.lat as number, lon: lastLocated.lon as number }
+        : null;
+
+  const nearbyIds = origin
+    ? (
+        (await prisma.coach.findRaw({
+          filter: {
+            geoLocation: {
+              $nearSphere: {
+                $geometry: {
+                  type: 'Point',
+                  coordinates: [origin.lon, origin.lat],
+                },
+                $maxDistance: DEFAULT_SEARCH_RADIUS_KM * 1000,
+              },
+            },
+          },
+          options: { projection: { _id: 1 }, limit: CANDIDATE_POOL_SIZE },
+        })) as unknown as { _id: { $oid: string } }[]
+      ).map(coach => coach._id.$oid)
+    : [];
+
+  // Candidates: coaches the athlete knows (booked, favorited) or who are
+  // nearby, all of them; then the best rated in their specialties and overall
+  const activeSpecialty = { specialty: { isActive: true } };
+  const byRating = [
+    { avgRating: 'desc' as const },
+    { totalReviews: 'desc' as const },
+  ];
+  const [known, sameSpecialty, topRated] = await Promise.all([
+    prisma.coach.findMany({
+      where: {
+        ...activeSpecialty,
+        OR: [
+          { id: { in: [...sessionsByCoach.keys(), ...nearbyIds] } },
+          { email: { in: [...favoriteEmails] } },
+        ],
+      },
+      select: coachSelect,
+    }),
+    prisma.coach.findMany({
+      where: {
+        ...activeSpecialty,
+        specialtyId: {
+          in: [...categorySpecialtyIds, ...bookedSpecialties.keys()],
+        },
+      },
+      select: coachSelect,
+      orderBy: byRating,
+      take: CANDIDATE_POOL_SIZE,
+    }),
+    prisma.coach.findMany({
+      where: activeSpecialty,
+      select: coachSelect,
+      orderBy: byRating,
+      take: CANDIDATE_POOL_SIZE / 2,
+    }),
+  ]);
+  const candidates = new Map(
+    [...known, ...sameSpecialty, ...topRated].map(coach => [coach.id, coach]),
+  );
+
+  const recommendations = [...candidates.values()].map(coach => {
+    let score = 0;
+    const reasons: { weight: number; text: string }[] = [];
+    const add = (weight: number, text?: string) => {
+      score += weight;
+      if (text && weight > 0) reasons.push({ weight, text });
+    };
+
+    const coachTokens = new Set(
+      tokenize(`${coach.specialty.title} ${coach.expertise.join(' ')}`),
+    );
+    const matchedToken = [...coachTokens].find(token =>
+      categoryByToken.has(token),
+    );
+    if (matchedToken) {
+      add(
+        RECOMMENDATION_WEIGHTS.category,
+        `Matches your interest in ${categoryByToken.get(matchedToken)}`,
+      );
+    }
+
+    const bookedSpecialty = bookedSpecialties.get(coach.specialtyId);
+    if (bookedSpecialty) {
+      add(
+        RECOMMENDATION_WEIGHTS.bookedSpecialty,
+        `Because you booked ${bookedSpecialty.toLowerCase()}`,
+      );
+    }
+
+    if (favoriteEmails.has(coach.email)) {
+      add(RECOMMENDATION_WEIGHTS.favorite, 'In your favorites');
+    }
+
+    const sessions = sessionsByCoach.get(coach.id);
+    if (sessions) {
+      add(
+        RECOMMENDATION_WEIGHTS.bookedCoach,
+        `You trained with ${coach.fullName} ${sessions === 1 ? 'once' : `${sessions} times`}`,
+      );
+    }
+
+    // A handful of reviews counts for less than many
+    if (coach.totalReviews) {
+      add(
+        RECOMMENDATION_WEIGHTS.rating *
+          (coach.avgRating / 5) *
+          Math.min(coach.totalReviews / 10, 1),
+        coach.avgRating >= 4
+          ? `Rated ${coach.avgRating.toFixed(1)} by ${coach.totalReviews} athlete${coach.totalReviews === 1 ? '' : 's'}`
+          : undefined,
+      );
+    }
+
+    let distanceKm: number | null = null;
+    if (
+      origin &&
+      coach.latitude != null &&
+      coach.longitude != null &&
+      coach.sessionModes.includes(SessionMode.IN_PERSON)
+    ) {
+      distanceKm =
+        distanceInMeters(origin, {
+          lat: coach.latitude,
+          lon: coach.longitude,
+        }) / 1000;
+      add(
+        RECOMMENDATION_WEIGHTS.proximity *
+          Math.max(1 - distanceKm / (2 * DEFAULT_SEARCH_RADIUS_KM), 0),
+        distanceKm <= DEFAULT_SEARCH_RADIUS_KM
+          ? `${distanceKm.toFixed(1)} km from you`
+          : undefined,
+      );
+    }
+
+    if (usualPrice && coach.price != null) {
+      const difference = Math.abs(coach.price - usualPrice) / usualPrice;
+      add(
+        RECOMMENDATION_WEIGHTS.price * Math.max(1 - difference, 0),
+        difference <= 0.2 ? 'Close to what you usually pay' : undefined,
+      );
+    }
+
+    return { coach, score, reasons, distanceKm };
+  });
+
+  return recommendations
+    .sort((a, b) => b.score - a.score || b.coach.avgRating - a.coach.avgRating)
+    .slice(0, limit)
+    .map(({ coach, score, reasons, distanceKm }) => ({
+      ...coach,
+      distanceKm:
+        distanceKm === null ? null : parseFloat(distanceKm.toFixed(2)),
+      isFavorite: favoriteEmails.has(coach.email),
+      recommendation: {
+        score: parseFloat(score.toFixed(2)),
+        reasons: reasons
+          .sort((a, b) => b.weight - a.weight)
+          .slice(0, MAX_REASONS)
+          .map(reason => reason.text),
+      },
+    }));
+};
+
+export const CoachRecommendations = {
+  getRecommendedCoaches,
+};
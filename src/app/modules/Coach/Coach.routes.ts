@@ -2,6 +2,8 @@ import express from 'express';
 import { CoachController } from './Coach.controller';
 import auth from '../../middlewares/auth';
 import { UserRoleEnum } from '@prisma/client';
+import validateRequest from '../../middlewares/validateRequest';
+import { CoachValidation } from './Coach.validation';
 
 const router = express.Router();
 
@@ -10,11 +12,22 @@ router.get(
   auth(UserRoleEnum.ADMIN, UserRoleEnum.COACH, UserRoleEnum.ATHLETE),
   CoachController.getAllCoach,
 );
+router.get(
+  '/recommended',
+  auth(UserRoleEnum.ATHLETE),
+  CoachController.getRecommendedCoaches,
+);
 router.get(
   '/my',
   auth(UserRoleEnum.ATHLETE, UserRoleEnum.COACH),
   CoachController.getMyCoach,
 );
+router.put(
+  '/my/cancellation-policy',
+  auth(UserRoleEnum.COACH),
+  validateRequest.body(CoachValidation.cancellationPolicyZodSchema),
+  CoachController.updateCancellationPolicy,
+);
 router.get('/coach-slot/:coachId', CoachController.getSpecifiCoacheSlotByDate);
 router.get(
   '/:id',
@@ -1,14 +1,612 @@
-import { BookingStatus, Prisma, SlotStatus } from '@prisma/client';
+import {
+  BookingStatus,
+  GenderEnum,
+  Prisma,
+  SessionMode,
+  SlotStatus,
+  UserRoleEnum,
+  WaitlistStatus,
+} from '@prisma/client';
 import { prisma } from '../../utils/prisma';
-import { formatTimeWithAMPM } from '../Schedule/Schedule.constants';
+import {
+  formatSlotTimes,
+  getSeatInfo,
+  getSlotSettings,
+  isInBlackout,
+  toSlotDate,
+} from '../Schedule/Schedule.constants';
+import { resolveTimeZone } from '../../utils/timezone';
+import { ScheduleServices } from '../Schedule/Schedule.service';
 import AppError from '../../errors/AppError';
 import httpStatus from 'http-status';
 import { Request } from 'express';
-import { getWeeklySchedule } from './Coach.constant';
+import {
+  buildSearchTerms,
+  COACH_SORT_OPTIONS,
+  DEFAULT_AVAILABILITY_WINDOW_DAYS,
+  DEFAULT_SEARCH_RADIUS_KM,
+  DEFAULT_SLOTS_PER_COACH,
+  getWeeklySchedule,
+  getWeeklyScheduleFromTemplate,
+  MAX_AVAILABILITY_WINDOW_DAYS,
+  MAX_SEARCH_PAGE_SIZE,
+  MAX_SEARCH_RADIUS_KM,
+  MAX_SLOTS_PER_COACH,
+  PRICE_BAND_BOUNDARIES,
+  RATING_BANDS,
+  SEARCH_TERMS_CACHE_SECONDS,
+  TCoachSort,
+} from './Coach.constant';
+import { matchScore, tokenize } from '../../utils/search';
+import { BoostServices } from '../Boost/Boost.service';
+import { DEFAULT_CANCELLATION_POLICY } from '../Booking/Booking.constants';
 
+// The logged-in user's saved zone, used to localize responses for them
+const getUserTimeZone = async (
+  email?: string,
+  role?: UserRoleEnum,
+): Promise<string | null> => {
+  if (!email) return null;
+
+  if (role === UserRoleEnum.ATHLETE) {
+    const athlete = await prisma.athlete.findUnique({
+      where: { email },
+      select: { timezone: true },
+    });
+    return athlete?.timezone ?? null;
+  }
+
+  if (role === UserRoleEnum.COACH) {
+    const coach = await prisma.coach.findUnique({
+      where: { email },
+      select: { timezone: true },
+    });
+    return coach?.timezone ?? null;
+  }
+
+  return null;
+};
+
+// Every distinct term of all coaches, reused for a short while instead of
+// being read on each search; cleared when a profile on this server changes
+let indexedTerms: { values: string[]; loadedAt: number } | null = null;
+
+// Rebuilds the text search terms after a searchable profile field changes
+const refreshSearchTerms = async (where: Prisma.CoachWhereUniqueInput) => {
+  const coach = await prisma.coach.findUnique({
+    where,
+    select: {
+      id: true,
+      fullName: true,
+      bio: true,
+      expertise: true,
+      certification: true,
+      location: true,
+      specialty: { select: { title: true } },
+    },
+  });
+  if (!coach) return;
+
+  await prisma.coach.update({
+    where: { id: coach.id },
+    data: { searchTerms: { set: buildSearchTerms(coach) } },
+  });
+  indexedTerms = null;
+};
+
+// Startup work for the coach search that Prisma cannot declare itself:
+// - the GeoJSON point for coaches saved before it was kept in sync
+// - rating aggregates, recomputed from the reviews
+// - the 2dsphere index behind the radius search
+// - text search terms for coaches saved before they were kept
+const prepareCoachSearch = async () => {
+  await prisma.$runCommandRaw({
+    update: 'coaches',
+    updates: [
+      {
+        q: {
+          latitude: { $gte: -90, $lte: 90 },
+          longitude: { $gte: -180, $lte: 180 },
+          geoLocation: { $exists: false },
+        },
+        u: [
+          {
+            $set: {
+              geoLocation: {
+                type: 'Point',
+                coordinates: ['$longitude', '$latitude'],
+              },
+            },
+          },
+        ],
+        multi: true,
+      },
+    ],
+  });
+  await prisma.$runCommandRaw({
+    aggregate: 'reviews',
+    pipeline: [
+      {
+        $group: {
+          _id: '$coachId',
+          avgRating: { $avg: '$rating' },
+          totalReviews: { $sum: 1 },
+        },
+      },
+      { $set: { avgRating: { $round: ['$avgRating', 2] } } },
+      {
+        $merge: {
+          into: 'coaches',
+          on: '_id',
+          whenMatched: 'merge',
+          whenNotMatched: 'discard',
+        },
+      },
+    ],
+    cursor: {},
+  });
+  await prisma.$runCommandRaw({
+    createIndexes: 'coaches',
+    indexes: [
+      {
+        key: { geoLocation: '2dsphere' },
+        name: 'coaches_geoLocation_2dsphere',
+      },
+    ],
+  });
+
+  const unindexed = await prisma.coach.findMany({
+    where: {
+      OR: [
+        { searchTerms: { isEmpty: true } },
+        { searchTerms: { isSet: false } },
+      ],
+    },
+    select: { id: true },
+  });
+  for (const coach of unindexed) {
+    await refreshSearchTerms({ id: coach.id });
+  }
+};
+
+// Where the last coach of a page sits in the ranking; the next page starts
+// right after it, so pages stay stable while coaches are added or removed
+type TSearchCursor = { bucket: number; value: number; id: string };
+
+type TRankedCoach = {
+  _id: { $oid: string };
+  rankBucket: number;
+  sortValue: TRawNumber;
+  distanceMeters?: TRawNumber;
+  travelsToYou?: boolean;
+  searchScore?: TRawNumber;
+};
+
+// Raw results come back as extended JSON, where numbers may be wrapped
+type TRawNumber =
+  | number
+  | { $numberInt: string }
+  | { $numberLong: string }
+  | { $numberDouble: string };
+
+const toNumber = (value: TRawNumber) =>
+  typeof value === 'number' ? value : Number(Object.values(value)[0]);
+
+type TRawDate = { $date: string | { $numberLong: string } };
+
+const toDate = (value: TRawDate) =>
+  new Date(
+    typeof value.$date === 'string'
+      ? value.$date
+      : Number(value.$date.$numberLong),
+  );
+
+type TOpenSlot = {
+  _id: { $oid: string };
+  startTime: TRawDate;
+  endTime: TRawDate;
+  capacity?: TRawNumber;
+  bookedSeats?: TRawNumber;
+  seatPrice?: TRawNumber | null;
+};
+
+type TCoachOpenSlots = {
+  nextAvailableAt: Date;
+  openSlotCount: number;
+  slots: {
+    id: string;
+    startTime: Date;
+    endTime: Date;
+    capacity: number;
+    bookedSeats: number;
+    seatPrice: number | null;
+  }[];
+};
+
+// Slots between `from` and `to` that are ACTIVE and not full
+const slotsInWindowStage = (from: Date, to: Date) => ({
+  $match: {
+    status: SlotStatus.ACTIVE,
+    isBooked: false,
+    startTime: { $gte: { $date: from.toISOString() } },
+    endTime: { $lte: { $date: to.toISOString() } },
+  },
+});
+
+// Of those, the bookable ones: outside the coach's blackouts and with a seat
+// left besides the ones held for live waitlist offers. `coachId` is the
+// expression giving the slot's coach.
+const bookableSlotStages = (coachId: string) => [
+  {
+    $lookup: {
+      from: 'coach_blackouts',
+      let: { coachId, startTime: '$startTime', endTime: '$endTime' },
+      pipeline: [
+        {
+          $match: {
+            $expr: {
+              $and: [
+                { $eq: ['$coachId', '$$coachId'] },
+                { $lt: ['$startAt', '$$endTime'] },
+                { $gt: ['$endAt', '$$startTime'] },
+              ],
+            },
+          },
+        },
+        { $limit: 1 },
+      ],
+      as: 'blackouts',
+    },
+  },
+  { $match: { blackouts: { $size: 0 } } },
+  {
+    $lookup: {
+      from: 'waitlist_entries',
+      localField: '_id',
+      foreignField: 'offeredSlotId',
+      pipeline: [
+        {
+          $match: {
+            status: WaitlistStatus.OFFERED,
+            offerExpiresAt: { $gt: { $date: new Date().toISOString() } },
+          },
+        },
+        { $project: { _id: 1 } },
+      ],
+      as: 'liveOffers',
+    },
+  },
+  {
+    $match: {
+      $expr: {
+        $lt: [
+          {
+            $add: [{ $ifNull: ['$bookedSeats', 0] }, { $size: '$liveOffers' }],
+          },
+          { $ifNull: ['$capacity', 1] },
+        ],
+      },
+    },
+  },
+];
+
+// Bookable slots between `from` and `to`, grouped by coach with the soonest
+// coach first
+const findOpenSlotsByCoach = async (from: Date, to: Date, perCoach: number) => {
+  const groups = (await prisma.timeSlot.aggregateRaw({
+    pipeline: [
+      slotsInWindowStage(from, to),
+      {
+        $lookup: {
+          from: 'coach_availabilities',
+          localField: 'availabilityId',
+          foreignField: '_id',
+          as: 'availability',
+        },
+      },
+      { $unwind: '$availability' },
+      ...bookableSlotStages('$availability.coachId'),
+      { $sort: { startTime: 1, _id: 1 } },
+      {
+        $group: {
+          _id: '$availability.coachId',
+          nextAvailableAt: { $first: '$startTime' },
+          openSlotCount: { $sum: 1 },
+          slots: {
+            $push: {
+              _id: '$_id',
+              startTime: '$startTime',
+              endTime: '$endTime',
+              capacity: '$capacity',
+              bookedSeats: '$bookedSeats',
+              seatPrice: '$seatPrice',
+            },
+          },
+        },
+      },
+      {
+        $project: {
+          nextAvailableAt: 1,
+          openSlotCount: 1,
+          slots: { $slice: ['$slots', perCoach] },
+        },
+      },
+      { $sort: { nextAvailableAt: 1, _id: 1 } },
+    ],
+  })) as unknown as {
+    _id: { $oid: string };
+    nextAvailableAt: TRawDate;
+    openSlotCount: TRawNumber;
+    slots: TOpenSlot[];
+  }[];
+
+  return new Map<string, TCoachOpenSlots>(
+    groups.map(group => [
+      group._id.$oid,
+      {
+        nextAvailableAt: toDate(group.nextAvailableAt),
+        openSlotCount: toNumber(group.openSlotCount),
+        slots: group.slots.map(slot => ({
+          id: slot._id.$oid,
+          startTime: toDate(slot.startTime),
+          endTime: toDate(slot.endTime),
+          capacity: slot.capacity != null ? toNumber(slot.capacity) : 1,
+          bookedSeats:
+            slot.bookedSeats != null ? toNumber(slot.bookedSeats) : 0,
+          seatPrice: slot.seatPrice != null ? toNumber(slot.seatPrice) : null,
+        })),
+      },
+    ]),
+  );
+};
+
+const encodeCursor = (cursor: TSearchCursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (cursor: string): TSearchCursor => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (
+      typeof parsed.bucket === 'number' &&
+      typeof parsed.value === 'number' &&
+      /^[a-f\d]{24}$/i.test(parsed.id)
+    ) {
+      return parsed;
+    }
+  } catch {
+    // Not base64 JSON, reported below
+  }
+  throw new AppError(httpStatus.BAD_REQUEST, 'Invalid cursor');
+};
+
+const escapeRegex = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Indexed terms that match one query word, with how well they match
+type TQueryMatch = { terms: string[]; scores: number[] };
+
+const getIndexedTerms = async () => {
+  if (
+    indexedTerms &&
+    Date.now() - indexedTerms.loadedAt < SEARCH_TERMS_CACHE_SECONDS * 1000
+  ) {
+    return indexedTerms.values;
+  }
+
+  const { values } = (await prisma.$runCommandRaw({
+    distinct: 'coaches',
+    key: 'searchTerms.term',
+  })) as unknown as { values: string[] };
+  indexedTerms = { values, loadedAt: Date.now() };
+  return values;
+};
+
+const matchQueryTokens = async (tokens: string[]): Promise<TQueryMatch[]> => {
+  const values = await getIndexedTerms();
+
+  return tokens.map(token => {
+    const matches = values
+      .map(term => ({ term, score: matchScore(token, term) }))
+      .filter(match => match.score > 0);
+    return {
+      terms: matches.map(match => match.term),
+      scores: matches.map(match => match.score),
+    };
+  });
+};
+
+// Best weighted match of one query word among the coach's terms
+const matchScoreExpression = (match: TQueryMatch) => ({
+  $ifNull: [
+    {
+      $max: {
+        $map: {
+          input: { $ifNull: ['$searchTerms', []] },
+          as: 'entry',
+          in: {
+            $let: {
+              vars: { index: { $indexOfArray: [match.terms, '$$entry.term'] } },
+              in: {
+                $cond: [
+                  { $gte: ['$$index', 0] },
+                  {
+                    $multiply: [
+                      '$$entry.weight',
+                      { $arrayElemAt: [match.scores, '$$index'] },
+                    ],
+                  },
+                  0,
+                ],
+              },
+            },
+          },
+        },
+      },
+    },
+    0,
+  ],
+});
+
+type TFacetResult = {
+  specialty: { _id: { $oid: string }; title: string; count: TRawNumber }[];
+  gender: { _id: GenderEnum | null; count: TRawNumber }[];
+  price: { _id: TRawNumber | string; count: TRawNumber }[];
+  rating: Record<string, TRawNumber>[];
+};
+
+// Filters that have a facet of their own
+type TFacetFilters = Partial<
+  Record<'gender' | 'price' | 'rating', Prisma.InputJsonObject>
+>;
+
+// Counts of one facet, on the other filters: a chip shows how many coaches
+// picking it would leave, even while another value of it is picked
+const countOnOtherFilters = (
+  facet: keyof TFacetFilters | null,
+  filters: TFacetFilters,
+  stages: Prisma.InputJsonObject[],
+) => {
+  const others = Object.entries(filters)
+    .filter(([name]) => name !== facet)
+    .map(([, filter]) => filter);
+  return others.length ? [{ $match: { $and: others } }, ...stages] : stages;
+};
+
+// Filter chips with the number of coaches each would leave
+const facetStages = (filters: TFacetFilters) => ({
+  specialty: countOnOtherFilters(null, filters, [
+    {
+      $group: {
+        _id: { $arrayElemAt: ['$specialty._id', 0] },
+        title: { $first: { $arrayElemAt: ['$specialty.title', 0] } },
+        count: { $sum: 1 },
+      },
+    },
+    { $sort: { count: -1, title: 1 } },
+  ]),
+  gender: countOnOtherFilters('gender', filters, [
+    { $group: { _id: '$gender', count: { $sum: 1 } } },
+  ]),
+  price: countOnOtherFilters('price', filters, [
+    {
+      $bucket: {
+        groupBy: '$price',
+        boundaries: [...PRICE_BAND_BOUNDARIES, Number.MAX_SAFE_INTEGER],
+        default: 'unpriced',
+        output: { count: { $sum: 1 } },
+      },
+    },
+  ]),
+  rating: countOnOtherFilters('rating', filters, [
+    {
+      $group: {
+        _id: null,
+        ...Object.fromEntries(
+          RATING_BANDS.map((min, index) => [
+            `band${index}`,
+            { $sum: { $cond: [{ $gte: ['$avgRating', min] }, 1, 0] } },
+          ]),
+        ),
+      },
+    },
+  ]),
+});
+
+const formatFacets = (facets: TFacetResult) => ({
+  specialty: facets.specialty.map(facet => ({
+    id: facet._id.$oid,
+    title: facet.title,
+    count: toNumber(facet.count),
+  })),
+  gender: Object.values(GenderEnum).map(value => {
+    const facet = facets.gender.find(item => item._id === value);
+    return { value, count: facet ? toNumber(facet.count) : 0 };
+  }),
+  price: PRICE_BAND_BOUNDARIES.map((min, index) => {
+    const facet = facets.price.find(
+      item => typeof item._id !== 'string' && toNumber(item._id) === min,
+    );
+    return {
+      min,
+      max: PRICE_BAND_BOUNDARIES[index + 1] ?? null,
+      count: facet ? toNumber(facet.count) : 0,
+    };
+  }),
+  rating: RATING_BANDS.map((min, index) => {
+    const count = facets.rating[0]?.[`band${index}`];
+    return { min, count: count !== undefined ? toNumber(count) : 0 };
+  }),
+});
+
+// Value the coaches are ordered by inside their bucket; coaches without
+// one (no price, no experience) go last in either direction
+const sortValueExpression = (sort: TCoachSort, direction: 1 | -1) => {
+  const missing =
+    direction === 1 ? Number.MAX_SAFE_INTEGER : -Number.MAX_SAFE_INTEGER;
+
+  switch (sort) {
+    case 'soonest':
+      // Start of the coach's next bookable slot, looked up before ranking
+      return {
+        $ifNull: [
+          { $toDouble: { $arrayElemAt: ['$nextOpenSlot.startTime', 0] } },
+          missing,
+        ],
+      };
+    case 'price':
+      return { $ifNull: ['$price', missing] };
+    case 'experience':
+      return { $ifNull: ['$experience', missing] };
+    case 'distance':
+      return '$distanceMeters';
+    case 'newest':
+      return { $toDouble: '$createdAt' };
+    case 'relevance':
+      return { $ifNull: ['$searchScore', 0] };
+    default:
+      return { $ifNull: ['$avgRating', 0] };
+  }
+};
+
+// In-person sessions reach the searcher: the coach trains in person and the
+// distance is inside their travel radius (none set = no limit)
+const travelsToYouExpression = {
+  $and: [
+    { $in: ['IN_PERSON', { $ifNull: ['$sessionModes', ['IN_PERSON']] }] },
+    {
+      $or: [
+        { $eq: [{ $ifNull: ['$travelRadiusKm', null] }, null] },
+        {
+          $lte: ['$distanceMeters', { $multiply: ['$travelRadiusKm', 1000] }],
+        },
+      ],
+    },
+  ],
+};
+
+const formatAvailableSlots = (
+  coachSlots: TCoachOpenSlots | undefined,
+  price: number | null,
+  timeZone: string,
+) => ({
+  nextAvailableAt: coachSlots?.nextAvailableAt.toISOString() ?? null,
+  openSlotCount: coachSlots?.openSlotCount ?? 0,
+  availableSlots: (coachSlots?.slots ?? []).map(slot => ({
+    id: slot.id,
+    ...formatSlotTimes(slot, timeZone),
+    durationMinutes:
+      (slot.endTime.getTime() - slot.startTime.getTime()) / 60000,
+    ...getSeatInfo(slot),
+    price: slot.seatPrice ?? price,
+  })),
+});
+
+// Filtering, ranking and pagination run in one aggregation; only the coaches
+// of the requested page are loaded afterwards
 const getAllCoach = async (
   query: Record<string, any>,
   athleteEmail: string,
+  role?: UserRoleEnum,
 ) => {
   const {
     searchTerm,
@@ -18,67 +616,366 @@ const getAllCoach = async (
     maxPrice,
     gender,
     location,
+    lat,
+    lng,
+    radiusKm,
+    availableFrom,
+    availableTo,
+    slotsPerCoach,
+    sortBy,
+    sortOrder,
+    cursor,
     page = 1,
     limit = 10,
   } = query;
 
-  // Fetch all valid specialty IDs to ensure data consistency
-  const specialties = await prisma.specialties.findMany({
-    select: { id: true },
-  });
-  const validSpecialtyIds = specialties.map(s => s.id);
+  const pageSize = Math.min(
+    Math.max(parseInt(limit) || 10, 1),
+    MAX_SEARCH_PAGE_SIZE,
+  );
+  const pipeline: Prisma.InputJsonObject[] = [];
+
+  // Radius filter (GET /coach?lat=..&lng=..&radiusKm=..). $geoNear has to be
+  // the first stage; a coach whose travel radius is shorter than the
+  // distance only shows up when they also train online.
+  const isRadiusSearch = lat !== undefined || lng !== undefined;
+  if (isRadiusSearch) {
+    const point = { lat: parseFloat(lat), lng: parseFloat(lng) };
+    if (!(Math.abs(point.lat) <= 90 && Math.abs(point.lng) <= 180)) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        'lat and lng must both be valid coordinates',
+      );
+    }
 
-  const whereConditions: Prisma.CoachWhereInput[] = [
-    { specialtyId: { in: validSpecialtyIds } },
-  ];
+    const radius = radiusKm ? parseFloat(radiusKm) : DEFAULT_SEARCH_RADIUS_KM;
+    if (!(radius > 0 && radius <= MAX_SEARCH_RADIUS_KM)) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `radiusKm must be between 0 and ${MAX_SEARCH_RADIUS_KM}`,
+      );
+    }
 
+    pipeline.push(
+      {
+        $geoNear: {
+          near: { type: 'Point', coordinates: [point.lng, point.lat] },
+          key: 'geoLocation',
+          distanceField: 'distanceMeters',
+          maxDistance: radius * 1000,
+          spherical: true,
+        },
+      },
+      { $addFields: { travelsToYou: travelsToYouExpression } },
+      {
+        $match: {
+          $or: [{ travelsToYou: true }, { sessionModes: SessionMode.ONLINE }],
+        },
+      },
+    );
+  }
+
+  // Availability search (GET /coach?availableFrom=..&availableTo=..): only
+  // coaches with an open slot in the window, each listing their next few
+  const isAvailabilitySearch =
+    availableFrom !== undefined || availableTo !== undefined;
+  let openSlots: Map<string, TCoachOpenSlots> | undefined;
+  let availabilityWindow: { from: Date; to: Date } | undefined;
+  if (isAvailabilitySearch) {
+    const now = new Date();
+    const requestedFrom = availableFrom ? new Date(String(availableFrom)) : now;
+    // Slots that already started cannot be booked
+    const windowStart = requestedFrom < now ? now : requestedFrom;
+    const windowEnd = availableTo
+      ? new Date(String(availableTo))
+      : new Date(
+          windowStart.getTime() +
+            DEFAULT_AVAILABILITY_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+        );
+    if (isNaN(requestedFrom.getTime()) || isNaN(windowEnd.getTime())) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        'availableFrom and availableTo must be valid dates',
+      );
+    }
+    if (windowEnd <= windowStart) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        'availableTo must be in the future and after availableFrom',
+      );
+    }
+    if (
+      windowEnd.getTime() - windowStart.getTime() >
+      MAX_AVAILABILITY_WINDOW_DAYS * 24 * 60 * 60 * 1000
+    ) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `The availability window cannot be longer than ${MAX_AVAILABILITY_WINDOW_DAYS} days`,
+      );
+    }
+
+    const perCoach = Math.min(
+      Math.max(parseInt(slotsPerCoach) || DEFAULT_SLOTS_PER_COACH, 1),
+      MAX_SLOTS_PER_COACH,
+    );
+    availabilityWindow = { from: windowStart, to: windowEnd };
+    openSlots = await findOpenSlotsByCoach(windowStart, windowEnd, perCoach);
+    pipeline.push({
+      $match: { _id: { $in: [...openSlots.keys()].map(id => ({ $oid: id })) } },
+    });
+  }
+
+  // Sort option, defaulting to the best text match for a searchTerm, nearest
+  // first for a radius search and the soonest open slot for an availability
+  // search
+  const defaultSort: TCoachSort = searchTerm
+    ? 'relevance'
+    : isRadiusSearch
+      ? 'distance'
+      : isAvailabilitySearch
+        ? 'soonest'
+        : 'rating';
+  const sort: TCoachSort = sortBy ?? defaultSort;
+  if (!Object.keys(COACH_SORT_OPTIONS).includes(sort)) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `sortBy must be one of ${Object.keys(COACH_SORT_OPTIONS).join(', ')}`,
+    );
+  }
+  if (sort === 'distance' && !isRadiusSearch) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Sorting by distance needs lat and lng',
+    );
+  }
+  if (sort === 'relevance' && !searchTerm) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Sorting by relevance needs a searchTerm',
+    );
+  }
+  if (sort === 'soonest' && !isAvailabilitySearch) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Sorting by soonest needs availableFrom or availableTo',
+    );
+  }
+  if (sortOrder && sortOrder !== 'asc' && sortOrder !== 'desc') {
+    throw new AppError(httpStatus.BAD_REQUEST, 'sortOrder must be asc or desc');
+  }
+  const direction = (sortOrder ?? COACH_SORT_OPTIONS[sort]) === 'asc' ? 1 : -1;
+
+  // Coaches whose specialty no longer exists are left out
+  pipeline.push(
+    {
+      $lookup: {
+        from: 'specialties',
+        localField: 'specialtyId',
+        foreignField: '_id',
+        as: 'specialty',
+      },
+    },
+    { $match: { 'specialty.0': { $exists: true } } },
+  );
+
+  const filters: Prisma.InputJsonObject[] = [];
+
+  // Text search: every word has to match one of the coach's terms, exactly,
+  // as a prefix or with a typo (or the whole term is the coach's email)
+  const queryMatches = searchTerm
+    ? await matchQueryTokens([...new Set(tokenize(String(searchTerm)))])
+    : [];
   if (searchTerm) {
-    whereConditions.push({
-      OR: [
-        { fullName: { contains: searchTerm, mode: 'insensitive' } },
-        { email: { equals: searchTerm, mode: 'insensitive' } },
-        { location: { contains: searchTerm, mode: 'insensitive' } },
+    filters.push({
+      $or: [
         {
-          specialty: {
-            title: { contains: searchTerm, mode: 'insensitive' },
+          email: {
+            $regex: `^${escapeRegex(String(searchTerm))}$`,
+            $options: 'i',
           },
         },
+        ...(queryMatches.length
+          ? [
+              {
+                $and: queryMatches.map(match => ({
+                  'searchTerms.term': { $in: match.terms },
+                })),
+              },
+            ]
+          : []),
       ],
     });
   }
 
   // Experience filter
   if (experience) {
-    whereConditions.push({
-      experience: parseInt(experience),
-    });
+    filters.push({ experience: parseInt(experience) });
   }
 
+  // Filters with a facet are applied after the facets are counted
+  const facetFilters: TFacetFilters = {};
+
   // Price range filter
   if (minPrice || maxPrice) {
-    const priceFilter: any = {};
-    if (minPrice) priceFilter.gte = parseFloat(minPrice);
-    if (maxPrice) priceFilter.lte = parseFloat(maxPrice);
-    whereConditions.push({
-      price: priceFilter,
-    });
+    const priceFilter: Record<string, number> = {};
+    if (minPrice) priceFilter.$gte = parseFloat(minPrice);
+    if (maxPrice) priceFilter.$lte = parseFloat(maxPrice);
+    facetFilters.price = { price: priceFilter };
   }
 
   // Gender filter
   if (gender) {
-    whereConditions.push({
-      gender: gender,
-    });
+    facetFilters.gender = { gender: String(gender) };
   }
 
   // Location filter
   if (location) {
-    whereConditions.push({
-      location: { contains: location, mode: 'insensitive' },
+    filters.push({
+      location: { $regex: escapeRegex(String(location)), $options: 'i' },
+    });
+  }
+
+  // Minimum rating, from the aggregates kept on the coach
+  if (rating) {
+    facetFilters.rating = { avgRating: { $gte: parseFloat(rating) } };
+  }
+
+  if (filters.length) {
+    pipeline.push({ $match: { $and: filters } });
+  }
+
+  // Relevance: the best match of each word, weighted by the field it is in
+  if (queryMatches.length) {
+    pipeline.push({
+      $addFields: {
+        searchScore: { $add: queryMatches.map(matchScoreExpression) },
+      },
     });
   }
 
-  const whereClause: Prisma.CoachWhereInput = { AND: whereConditions };
+  // Soonest: the coach's next bookable slot, through their availabilities
+  if (sort === 'soonest' && availabilityWindow) {
+    const { from, to } = availabilityWindow;
+    pipeline.push({
+      $lookup: {
+        from: 'coach_availabilities',
+        localField: '_id',
+        foreignField: 'coachId',
+        pipeline: [
+          {
+            $lookup: {
+              from: 'time_slots',
+              localField: '_id',
+              foreignField: 'availabilityId',
+              let: { coachId: '$coachId' },
+              pipeline: [
+                slotsInWindowStage(from, to),
+                ...bookableSlotStages('$$coachId'),
+                { $sort: { startTime: 1 } },
+                { $limit: 1 },
+                { $project: { startTime: 1 } },
+              ],
+              as: 'slots',
+            },
+          },
+          { $unwind: '$slots' },
+          { $replaceRoot: { newRoot: '$slots' } },
+          { $sort: { startTime: 1 } },
+          { $limit: 1 },
+        ],
+        as: 'nextOpenSlot',
+      },
+    });
+  }
+
+  // Buckets: recommended → subscribed → regular; inside each bucket by the
+  // chosen sort, with _id breaking ties so the order is total
+  pipeline.push({
+    $addFields: {
+      rankBucket: {
+        $cond: [
+          { $eq: ['$isRecommendedPayment', true] },
+          0,
+          { $cond: [{ $ifNull: ['$subscriptionId', false] }, 1, 2] },
+        ],
+      },
+      sortValue: sortValueExpression(sort, direction),
+    },
+  });
+
+  const ordering = { $sort: { rankBucket: 1, sortValue: direction, _id: 1 } };
+  const after = cursor ? decodeCursor(String(cursor)) : null;
+  const pageStages = after
+    ? [
+        {
+          $match: {
+            $or: [
+              { rankBucket: { $gt: after.bucket } },
+              {
+                rankBucket: after.bucket,
+                sortValue: { [direction === 1 ? '$gt' : '$lt']: after.value },
+              },
+              {
+                rankBucket: after.bucket,
+                sortValue: after.value,
+                _id: { $gt: { $oid: after.id } },
+              },
+            ],
+          },
+        },
+        ordering,
+      ]
+    : [ordering, { $skip: (Math.max(Number(page) || 1, 1) - 1) * pageSize }];
+
+  const matchFacetFilters = countOnOtherFilters(null, facetFilters, []);
+  pipeline.push({
+    $facet: {
+      total: [...matchFacetFilters, { $count: 'count' }],
+      ...facetStages(facetFilters),
+      data: [
+        ...matchFacetFilters,
+        ...pageStages,
+        // One extra tells whether another page follows
+        { $limit: pageSize + 1 },
+        {
+          $project: {
+            rankBucket: 1,
+            sortValue: 1,
+            distanceMeters: 1,
+            travelsToYou: 1,
+            searchScore: 1,
+          },
+        },
+      ],
+    },
+  });
+
+  const [result] = (await prisma.coach.aggregateRaw({
+    pipeline,
+  })) as unknown as ({
+    total: { count: TRawNumber }[];
+    data: TRankedCoach[];
+  } & TFacetResult)[];
+
+  const ranked = result.data.slice(0, pageSize);
+  const hasMore = result.data.length > pageSize;
+
+  // Boosted coaches shown to an athlete count as boost impressions
+  const boostedIds = ranked
+    .filter(coach => coach.rankBucket === 0)
+    .map(coach => coach._id.$oid);
+  if (role === UserRoleEnum.ATHLETE && boostedIds.length) {
+    await BoostServices.recordImpressions(boostedIds);
+  }
+  const last = ranked[ranked.length - 1];
+  const nextCursor =
+    hasMore && last
+      ? encodeCursor({
+          bucket: last.rankBucket,
+          value: toNumber(last.sortValue),
+          id: last._id.$oid,
+        })
+      : null;
 
   const favorite = await prisma.favorite.findMany({
     where: {
@@ -88,9 +985,9 @@ const getAllCoach = async (
   });
   const favoriteCoachEmails = favorite.map(f => f.coachEmail);
 
-  // Fetch all coaches with necessary data
+  // Display data for the coaches on this page
   const coaches = await prisma.coach.findMany({
-    where: whereClause,
+    where: { id: { in: ranked.map(coach => coach._id.$oid) } },
     select: {
       id: true,
       fullName: true,
@@ -101,25 +998,26 @@ const getAllCoach = async (
       location: true,
       expertise: true,
       certification: true,
+      bio: true,
       latitude: true,
       longitude: true,
       address: true,
       price: true,
+      sessionModes: true,
+      travelRadiusKm: true,
       gender: true,
       age: true,
       isRecommendedPayment: true,
       recommendedTime: true,
+      avgRating: true,
+      totalReviews: true,
+      createdAt: true,
       specialty: {
         select: {
           id: true,
           title: true,
         },
       },
-      review: {
-        select: {
-          rating: true,
-        },
-      },
       subscription: {
         select: {
           id: true,
@@ -136,85 +1034,86 @@ const getAllCoach = async (
         },
         take: 5,
       },
+      blackouts: {
+        select: {
+          startDate: true,
+          endDate: true,
+          startAt: true,
+        },
+        where: { endAt: { gt: new Date() } },
+        orderBy: { startAt: 'asc' },
+      },
     },
   });
+  const coachesById = new Map(coaches.map(coach => [coach.id, coach]));
 
-  // Calculate average rating for each coach
-  const coachesWithRating = coaches.map(coach => {
-    const totalRating = coach.review.reduce(
-      (sum, review) => sum + review.rating,
-      0,
-    );
-    const avgRating =
-      coach.review.length > 0 ? totalRating / coach.review.length : 0;
+  // Open slots are shown in the searcher's zone (?timezone= or their profile)
+  const viewerTimeZone = openSlots
+    ? resolveTimeZone(query.timezone, await getUserTimeZone(athleteEmail, role))
+    : undefined;
+
+  const now = new Date();
+  const data = ranked.flatMap(rankedCoach => {
+    const coach = coachesById.get(rankedCoach._id.$oid);
+    if (!coach) return [];
+
+    // Days inside a blackout are not offered
+    const { blackouts, ...coachFields } = coach;
+    const activeBlackout = blackouts.find(blackout => blackout.startAt <= now);
 
     return {
-      ...coach,
-      avgRating: parseFloat(avgRating.toFixed(2)),
-      totalReviews: coach.review.length,
+      ...coachFields,
+      availabilities: coach.availabilities.filter(
+        availability =>
+          !blackouts.some(
+            blackout =>
+              availability.slotDate >= blackout.startDate &&
+              availability.slotDate <= blackout.endDate,
+          ),
+      ),
+      unavailableUntil: activeBlackout?.endDate ?? null,
       isFavorite: favoriteCoachEmails.includes(coach.email),
+      // Radius search only: distance and whether in-person sessions reach you
+      ...(rankedCoach.distanceMeters !== undefined && {
+        distanceKm: parseFloat(
+          (toNumber(rankedCoach.distanceMeters) / 1000).toFixed(2),
+        ),
+        travelsToYou: !!rankedCoach.travelsToYou,
+      }),
+      ...(rankedCoach.searchScore !== undefined && {
+        relevance: parseFloat(toNumber(rankedCoach.searchScore).toFixed(2)),
+      }),
+      // Availability search only: the next open slots inside the window
+      ...(openSlots &&
+        viewerTimeZone &&
+        formatAvailableSlots(
+          openSlots.get(coach.id),
+          coach.price,
+          viewerTimeZone,
+        )),
     };
   });
 
-  // Filter by rating if specified
-  let filteredCoaches = coachesWithRating;
-  if (rating) {
-    const minRating = parseFloat(rating);
-    filteredCoaches = coachesWithRating.filter(
-      coach => coach.avgRating >= minRating,
-    );
-  }
-
-  // Separate coaches into three groups
-  const recommendedCoaches: any[] = [];
-  const subscribedCoaches: any[] = [];
-  const regularCoaches: any[] = [];
-
-  filteredCoaches.forEach(coach => {
-    if (coach.isRecommendedPayment) {
-      recommendedCoaches.push(coach);
-    } else if (coach.subscription) {
-      subscribedCoaches.push(coach);
-    } else {
-      regularCoaches.push(coach);
-    }
-  });
-
-  // Sort each group by rating (highest first)
-  const sortByRating = (a: any, b: any) => b.avgRating - a.avgRating;
-
-  recommendedCoaches.sort(sortByRating);
-  subscribedCoaches.sort(sortByRating);
-  regularCoaches.sort(sortByRating);
-
-  // Combine all groups in order: recommended → subscribed → regular
-  const sortedCoaches = [
-    ...recommendedCoaches,
-    ...subscribedCoaches,
-    ...regularCoaches,
-  ];
-
-  // Pagination
-  const skip = (Number(page) - 1) * Number(limit);
-  const paginatedCoaches = sortedCoaches.slice(skip, skip + Number(limit));
-
-  // Remove review array from response, keep only avgRating and totalReviews
-  const finalCoaches = paginatedCoaches.map(coach => {
-    const { review, ...coachData } = coach;
-    return coachData;
-  });
-
   return {
     meta: {
-      page: Number(page),
-      limit: Number(limit),
-      total: sortedCoaches.length,
+      page: after ? null : Number(page),
+      limit: pageSize,
+      total: result.total[0] ? toNumber(result.total[0].count) : 0,
+      sortBy: sort,
+      sortOrder: direction === 1 ? 'asc' : 'desc',
+      nextCursor,
+      hasMore,
     },
-    data: finalCoaches,
+    facets: formatFacets(result),
+    data,
   };
 };
 
-const getCoachByIdFromDB = async (id: string, athleteMail: string) => {
+const getCoachByIdFromDB = async (
+  id: string,
+  athleteMail: string,
+  role?: UserRoleEnum,
+) => {
   // Set today's date to midnight UTC
   const today = new Date();
   today.setUTCHours(0, 0, 0, 0);
@@ -237,14 +1136,25 @@ const getCoachByIdFromDB = async (id: string, athleteMail: string) => {
       location: true,
       expertise: true,
       certification: true,
+      bio: true,
       latitude: true,
       longitude: true,
       address: true,
       price: true,
+      timezone: true,
+      sessionModes: true,
       gender: true,
       age: true,
       isRecommendedPayment: true,
       recommendedTime: true,
+      cancellationPolicy: true,
+      coachCancellations: true,
+      availabilityTemplate: {
+        select: {
+          windows: true,
+          isActive: true,
+        },
+      },
       specialtyId: true,
       specialty: {
         select: {
@@ -282,6 +1192,7 @@ const getCoachByIdFromDB = async (id: string, athleteMail: string) => {
           id: true,
           rating: true,
           comment: true,
+          reply: true,
           createdAt: true,
           athlete: {
             select: {
@@ -312,6 +1223,12 @@ const getCoachByIdFromDB = async (id: string, athleteMail: string) => {
   if (!coach) {
     return null;
   }
+
+  // An athlete opening the profile counts as a click on a running boost
+  if (role === UserRoleEnum.ATHLETE) {
+    await BoostServices.recordClick(coach.id);
+  }
+
   // --- FILTERING FOR 7-DAY WINDOW ONLY ---
   const rollingWindowAvailabilities = coach.availabilities.filter(
     availability => {
@@ -320,10 +1237,11 @@ const getCoachByIdFromDB = async (id: string, athleteMail: string) => {
     },
   );
 
-  // --- GENERATE WEEKLY SCHEDULE USING FILTERED DATA ---
-  const projectedWeeklySchedule = getWeeklySchedule(
-    rollingWindowAvailabilities,
-  );
+  // --- GENERATE WEEKLY SCHEDULE: TEMPLATE FIRST, ELSE FILTERED DATA ---
+  const { availabilityTemplate, ...coachData } = coach;
+  const projectedWeeklySchedule = availabilityTemplate?.isActive
+    ? getWeeklyScheduleFromTemplate(availabilityTemplate.windows)
+    : getWeeklySchedule(rollingWindowAvailabilities, coach.timezone);
 
   const totalRating = coach.review.reduce(
     (sum, review) => sum + review.rating,
@@ -341,8 +1259,28 @@ const getCoachByIdFromDB = async (id: string, athleteMail: string) => {
   });
   const totalStudents = uniqueAthletes.length;
 
+  // Reliability: share of the coach's sessions that the coach cancelled
+  const totalSessions = await prisma.booking.count({
+    where: {
+      coachId: coach.id,
+      status: { not: BookingStatus.PENDING_PAYMENT },
+    },
+  });
+  const reliability = {
+    totalSessions,
+    coachCancellations: coach.coachCancellations,
+    cancellationRate:
+      totalSessions > 0
+        ? parseFloat((coach.coachCancellations / totalSessions).toFixed(2))
+        : 0,
+  };
+
   return {
-    ...coach,
+    ...coachData,
+    cancellationPolicy: coach.cancellationPolicy.length
+      ? coach.cancellationPolicy
+      : DEFAULT_CANCELLATION_POLICY,
+    reliability,
     isFavorite,
     totalStudents,
     weeklySchedule: projectedWeeklySchedule,
@@ -500,6 +1438,7 @@ const getSpecifiCoaches = async (req: Request) => {
           id: true,
           rating: true,
           comment: true,
+          reply: true,
           createdAt: true,
           athlete: {
             select: {
@@ -519,6 +1458,8 @@ const getSpecifiCoaches = async (req: Request) => {
     throw new AppError(httpStatus.NOT_FOUND, 'Coach not found');
   }
 
+  await ScheduleServices.refreshTemplateIfStale(coach.id);
+
   // Calculate rating from coach reviews (always available)
   const totalRating = coach.review.reduce(
     (sum, review) => sum + review.rating,
@@ -527,7 +1468,24 @@ const getSpecifiCoaches = async (req: Request) => {
   const avgRating =
     coach.review.length > 0 ? totalRating / coach.review.length : 0;
 
-  const dateObj = new Date(slotDate as string);
+  // Times are shown in the viewer's zone (?timezone= or their profile),
+  // falling back to the coach's zone
+  const coachTimeZone = resolveTimeZone(coach.timezone);
+  const viewerTimeZone = resolveTimeZone(
+    req.query.timezone as string,
+    await getUserTimeZone(req.user?.email, req.user?.role),
+    coachTimeZone,
+  );
+
+  const dateObj = toSlotDate(new Date(slotDate as string));
+  const blackouts = await prisma.coachBlackout.findMany({
+    where: {
+      coachId: coach.id,
+      startDate: { lte: dateObj },
+      endDate: { gte: dateObj },
+    },
+    select: { startAt: true, endAt: true, endDate: true },
+  });
   const availability = await prisma.coachAvailability.findUnique({
     where: {
       coachId_slotDate: {
@@ -545,22 +1503,33 @@ const getSpecifiCoaches = async (req: Request) => {
     },
   });
 
+  // Slots inside a blackout are hidden from athletes
+  const timeSlots =
+    availability?.timeSlots.filter(slot => !isInBlackout(slot, blackouts)) ??
+    [];
+
   // Dynamic nice message based on slots availability
-  const totalSlots = availability?.timeSlots?.length ?? 0;
+  const totalSlots = timeSlots.length;
   const message =
     totalSlots > 0
       ? `Excellent! ${coach.fullName} has ${totalSlots} active slots available on ${slotDate}. Book your preferred time now!`
-      : `Slots are available on ${slotDate}, but no active time slots at the moment. Check back later or contact the coach.`;
+      : blackouts.length
+        ? `${coach.fullName} is unavailable on ${slotDate}. Please pick another date.`
+        : `Slots are available on ${slotDate}, but no active time slots at the moment. Check back later or contact the coach.`;
   return {
     coach: {
       id: coach.id,
       fullName: coach.fullName,
       profile: coach.profile,
       price: coach.price,
+      sessionModes: coach.sessionModes,
       experience: coach.experience,
       expertise: coach.expertise,
       specialty: coach?.specialty?.title || "Unknown",
     },
+    slotSettings: getSlotSettings(coach),
+    timezone: viewerTimeZone,
+    coachTimezone: coachTimeZone,
     rating: {
       avgRating: parseFloat(avgRating.toFixed(2)),
       totalReviews: coach.review.length,
@@ -568,13 +1537,51 @@ const getSpecifiCoaches = async (req: Request) => {
     message,
     date: slotDate,
     isActive: availability?.isActive ?? false,
-    slots: availability?.timeSlots.map(slot => ({
+    unavailableUntil: blackouts[0]?.endDate ?? null,
+    slots: timeSlots.map(slot => ({
       id: slot.id,
-      startTime: formatTimeWithAMPM(slot.startTime),
-      endTime: formatTimeWithAMPM(slot.endTime),
+      ...formatSlotTimes(slot, viewerTimeZone),
+      durationMinutes:
+        (slot.endTime.getTime() - slot.startTime.getTime()) / 60000,
       status: slot.status,
       isBooked: slot.isBooked,
-    })) ?? [],
+      ...getSeatInfo(slot),
+      price: slot.seatPrice ?? coach.price,
+    })),
+  };
+};
+
+const updateCancellationPolicy = async (
+  coachMail: string,
+  rules: { minHoursBefore: number; refundPercent: number }[],
+) => {
+  const coach = await prisma.coach.findUnique({ where: { email: coachMail } });
+  if (!coach) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Coach not found');
+  }
+
+  const thresholds = rules.map(rule => rule.minHoursBefore);
+  if (new Set(thresholds).size !== thresholds.length) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Each rule must use a different minHoursBefore',
+    );
+  }
+
+  const sorted = [...rules].sort((a, b) => b.minHoursBefore - a.minHoursBefore);
+
+  const updated = await prisma.coach.update({
+    where: { id: coach.id },
+    data: { cancellationPolicy: { set: sorted } },
+    select: { id: true, cancellationPolicy: true },
+  });
+
+  return {
+    ...updated,
+    // An empty policy falls back to the platform default
+    effectivePolicy: updated.cancellationPolicy.length
+      ? updated.cancellationPolicy
+      : DEFAULT_CANCELLATION_POLICY,
   };
 };
 
@@ -584,9 +1591,12 @@ const updateIntoDb = async (id: string, data: Partial<any>) => {
 };
 
 export const CoachServices = {
+  prepareCoachSearch,
+  refreshSearchTerms,
   getAllCoach,
   getMyCoachAndAthlete,
   getSpecifiCoaches,
   getCoachByIdFromDB,
+  updateCancellationPolicy,
   updateIntoDb,
 };
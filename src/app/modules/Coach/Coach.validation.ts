@@ -13,7 +13,21 @@ const updateCoachZodSchema = z.object({
   }),
 });
 
+const cancellationPolicyZodSchema = z.object({
+  body: z.object({
+    rules: z
+      .array(
+        z.object({
+          minHoursBefore: z.number().min(0),
+          refundPercent: z.number().int().min(0).max(100),
+        }),
+      )
+      .max(10),
+  }),
+});
+
 export const CoachValidation = {
   createCoachZodSchema,
   updateCoachZodSchema,
+  cancellationPolicyZodSchema,
 };
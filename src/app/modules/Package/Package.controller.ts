@@ -0,0 +1,87 @@
+import catchAsync from '../../utils/catchAsync';
+import sendResponse from '../../utils/sendResponse';
+import httpStatus from 'http-status';
+import { Request, Response } from 'express';
+import { PackageServices } from './Package.service';
+
+const createPackage = catchAsync(async (req: Request, res: Response) => {
+  const result = await PackageServices.createPackage(req.user.email, req.body);
+
+  sendResponse(res, {
+    statusCode: httpStatus.CREATED,
+    success: true,
+    message: 'Package created successfully',
+    data: result,
+  });
+});
+
+const getMyPackages = catchAsync(async (req: Request, res: Response) => {
+  const result = await PackageServices.getMyPackages(req.user.email);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Packages retrieved successfully',
+    data: result,
+  });
+});
+
+const updatePackage = catchAsync(async (req: Request, res: Response) => {
+  const result = await PackageServices.updatePackage(
+    req.user.email,
+    req.params.id,
+    req.body,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Package updated successfully',
+    data: result,
+  });
+});
+
+const getCoachPackages = catchAsync(async (req: Request, res: Response) => {
+  const result = await PackageServices.getCoachPackages(req.params.coachId);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Packages retrieved successfully',
+    data: result,
+  });
+});
+
+const purchasePackage = catchAsync(async (req: Request, res: Response) => {
+  const result = await PackageServices.purchasePackage(
+    req.user.email,
+    req.params.id,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Complete the payment to receive your session credits',
+    data: result,
+  });
+});
+
+const getMyCredits = catchAsync(async (req: Request, res: Response) => {
+  const result = await PackageServices.getMyCredits(req.user.email);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Session credits retrieved successfully',
+    data: result,
+  });
+});
+
+export const PackageController = {
+  createPackage,
+  getMyPackages,
+  updatePackage,
+  getCoachPackages,
+  purchasePackage,
+  getMyCredits,
+};
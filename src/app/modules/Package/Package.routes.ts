@@ -0,0 +1,35 @@
+import express from 'express';
+import { PackageController } from './Package.controller';
+import auth from '../../middlewares/auth';
+import validateRequest from '../../middlewares/validateRequest';
+import { PackageValidation } from './Package.validation';
+import { UserRoleEnum } from '@prisma/client';
+
+const router = express.Router();
+
+router.get('/my', auth(UserRoleEnum.COACH), PackageController.getMyPackages);
+router.get(
+  '/credits/my',
+  auth(UserRoleEnum.ATHLETE),
+  PackageController.getMyCredits,
+);
+router.get('/coach/:coachId', PackageController.getCoachPackages);
+router.post(
+  '/',
+  auth(UserRoleEnum.COACH),
+  validateRequest.body(PackageValidation.createPackageZodSchema),
+  PackageController.createPackage,
+);
+router.patch(
+  '/:id',
+  auth(UserRoleEnum.COACH),
+  validateRequest.body(PackageValidation.updatePackageZodSchema),
+  PackageController.updatePackage,
+);
+router.post(
+  '/:id/purchase',
+  auth(UserRoleEnum.ATHLETE),
+  PackageController.purchasePackage,
+);
+
+export const PackageRoutes = router;
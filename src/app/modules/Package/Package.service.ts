@@ -0,0 +1,370 @@
+import httpStatus from 'http-status';
+import {
+  PackagePurchaseStatus,
+  PaymentStatus,
+  PaymentType,
+  Prisma,
+} from '@prisma/client';
+import { prisma } from '../../utils/prisma';
+import { stripe } from '../../utils/stripe';
+import AppError from '../../errors/AppError';
+import config from '../../../config';
+import { createNotification } from '../../middlewares/notify';
+
+type TPackagePayload = {
+  title: string;
+  description?: string;
+  sessionCount: number;
+  price: number;
+  validityDays?: number;
+  isActive?: boolean;
+};
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const getCoachByMail = async (coachMail: string) => {
+  const coach = await prisma.coach.findUnique({ where: { email: coachMail } });
+  if (!coach) throw new AppError(httpStatus.NOT_FOUND, 'Coach not found');
+  return coach;
+};
+
+// Credits that can still be spent: paid for and not expired
+const usableCreditWhere = (
+  athleteId: string,
+  coachId: string,
+): Prisma.PackagePurchaseWhereInput => ({
+  athleteId,
+  coachId,
+  status: PackagePurchaseStatus.ACTIVE,
+  creditsRemaining: { gt: 0 },
+  expiresAt: { gt: new Date() },
+});
+
+const createPackage = async (coachMail: string, payload: TPackagePayload) => {
+  const coach = await getCoachByMail(coachMail);
+
+  return prisma.sessionPackage.create({
+    data: {
+      coachId: coach.id,
+      title: payload.title,
+      description: payload.description,
+      sessionCount: payload.sessionCount,
+      price: payload.price,
+      validityDays: payload.validityDays,
+    },
+  });
+};
+
+const getMyPackages = async (coachMail: string) => {
+  const coach = await getCoachByMail(coachMail);
+
+  const packages = await prisma.sessionPackage.findMany({
+    where: { coachId: coach.id },
+    include: {
+      _count: {
+        select: {
+          purchases: { where: { status: PackagePurchaseStatus.ACTIVE } },
+        },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return packages.map(({ _count, ...pkg }) => ({
+    ...pkg,
+    totalSold: _count.purchases,
+  }));
+};
+
+// Changes only apply to future purchases; bought credits keep their terms
+const updatePackage = async (
+  coachMail: string,
+  packageId: string,
+  payload: Partial<TPackagePayload>,
+) => {
+  const coach = await getCoachByMail(coachMail);
+
+  const pkg = await prisma.sessionPackage.findUnique({
+    where: { id: packageId },
+  });
+  if (!pkg || pkg.coachId !== coach.id) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Package not found');
+  }
+
+  return prisma.sessionPackage.update({
+    where: { id: packageId },
+    data: payload,
+  });
+};
+
+// Packages athletes can buy, with the saving against single-session price
+const getCoachPackages = async (coachId: string) => {
+  const coach = await prisma.coach.findUnique({
+    where: { id: coachId },
+    select: { id: true, price: true },
+  });
+  if (!coach) throw new AppError(httpStatus.NOT_FOUND, 'Coach not found');
+
+  const packages = await prisma.sessionPackage.findMany({
+    where: { coachId, isActive: true },
+    orderBy: { sessionCount: 'asc' },
+  });
+
+  return packages.map(pkg => {
+    const perSessionPrice = roundMoney(pkg.price / pkg.sessionCount);
+    const fullPrice = (coach.price ?? 0) * pkg.sessionCount;
+    return {
+      ...pkg,
+      perSessionPrice,
+      savingsPercent:
+        fullPrice > 0
+          ? Math.max(Math.round((1 - pkg.price / fullPrice) * 100), 0)
+          : 0,
+    };
+  });
+};
+
+// Pending purchase + Stripe checkout; credits are granted by the webhook
+const purchasePackage = async (athleteMail: string, packageId: string) => {
+  const athlete = await prisma.athlete.findUnique({
+    where: { email: athleteMail },
+    include: { user: true },
+  });
+  if (!athlete) throw new AppError(httpStatus.NOT_FOUND, 'Athlete not found');
+
+  const pkg = await prisma.sessionPackage.findUnique({
+    where: { id: packageId },
+    include: { coach: { select: { id: true, fullName: true } } },
+  });
+  if (!pkg || !pkg.isActive) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Package not found');
+  }
+
+  // 1️⃣ Ensure Stripe Customer Exists (stored on the athlete's user)
+  let customerId = athlete.user.stripeCustomerId;
+  if (!customerId) {
+    const customer = await stripe.customers.create({
+      email: athlete.email,
+      name: athlete.fullName,
+      metadata: { athleteId: athlete.id },
+    });
+    customerId = customer.id;
+    await prisma.user.update({
+      where: { id: athlete.user.id },
+      data: { stripeCustomerId: customerId },
+    });
+  }
+
+  // 2️⃣ Pending purchase and payment
+  const purchase = await prisma.packagePurchase.create({
+    data: {
+      athleteId: athlete.id,
+      coachId: pkg.coachId,
+      packageId: pkg.id,
+      sessionCount: pkg.sessionCount,
+      creditsRemaining: pkg.sessionCount,
+      pricePaid: pkg.price,
+    },
+  });
+
+  const payment = await prisma.payment.create({
+    data: {
+      type: PaymentType.PACKAGE,
+      coachId: pkg.coachId,
+      athleteId: athlete.id,
+      packagePurchaseId: purchase.id,
+      amount: pkg.price,
+      currency: 'usd',
+      status: PaymentStatus.PENDING,
+      stripeCustomerId: customerId,
+    },
+  });
+
+  // 3️⃣ Checkout Session
+  try {
+    const metadata = { paymentId: payment.id, packagePurchaseId: purchase.id };
+    const session = await stripe.checkout.sessions.create({
+      mode: 'payment',
+      customer: customerId,
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency: 'usd',
+            unit_amount: Math.round(pkg.price * 100),
+            product_data: {
+              name: `${pkg.title} with ${pkg.coach.fullName}`,
+              description: `${pkg.sessionCount} sessions, valid for ${pkg.validityDays} days`,
+            },
+          },
+        },
+      ],
+      metadata,
+      payment_intent_data: { metadata },
+      success_url: `${config.base_url_client}/packages/payment-success?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${config.base_url_client}/packages/payment-cancel?session_id={CHECKOUT_SESSION_ID}`,
+    });
+
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { stripeSessionId: session.id },
+    });
+
+    return {
+      purchaseId: purchase.id,
+      paymentId: payment.id,
+      sessionId: session.id,
+      url: session.url,
+      amount: pkg.price,
+      currency: 'usd',
+    };
+  } catch (error) {
+    console.log('❌ Stripe Checkout Error:', error);
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { status: PaymentStatus.CANCELED },
+    });
+    await cancelPendingPurchase(purchase.id);
+    throw new AppError(
+      httpStatus.BAD_GATEWAY,
+      'Could not start payment for this package. Please try again.',
+    );
+  }
+};
+
+// Called from the Stripe webhook once the package payment succeeded
+const activatePurchase = async (purchaseId: string) => {
+  const purchase = await prisma.packagePurchase.findUnique({
+    where: { id: purchaseId },
+    include: {
+      package: true,
+      athlete: { include: { user: { select: { id: true } } } },
+      coach: { include: { user: { select: { id: true } } } },
+    },
+  });
+
+  // Webhook retries
+  if (!purchase || purchase.status !== PackagePurchaseStatus.PENDING) {
+    return purchase;
+  }
+
+  const expiresAt = new Date(
+    Date.now() + purchase.package.validityDays * 24 * 60 * 60 * 1000,
+  );
+  const activated = await prisma.packagePurchase.update({
+    where: { id: purchaseId },
+    data: { status: PackagePurchaseStatus.ACTIVE, expiresAt },
+  });
+
+  await createNotification({
+    receiverId: purchase.athlete.user.id,
+    senderId: purchase.coach.user.id,
+    title: 'Package Purchased',
+    body: `${purchase.sessionCount} session credits with ${purchase.coach.fullName} were added to your account. They are used automatically when you book.`,
+  });
+  await createNotification({
+    receiverId: purchase.coach.user.id,
+    senderId: purchase.athlete.user.id,
+    title: 'Package Sold',
+    body: `${purchase.athlete.fullName} bought your package "${purchase.package.title}".`,
+  });
+
+  return activated;
+};
+
+const cancelPendingPurchase = (purchaseId: string) =>
+  prisma.packagePurchase.updateMany({
+    where: { id: purchaseId, status: PackagePurchaseStatus.PENDING },
+    data: { status: PackagePurchaseStatus.CANCELED },
+  });
+
+const getCreditBalance = async (athleteId: string, coachId: string) => {
+  const result = await prisma.packagePurchase.aggregate({
+    where: usableCreditWhere(athleteId, coachId),
+    _sum: { creditsRemaining: true },
+  });
+  return result._sum.creditsRemaining ?? 0;
+};
+
+// Balances per coach for the athlete
+const getMyCredits = async (athleteMail: string) => {
+  const athlete = await prisma.athlete.findUnique({
+    where: { email: athleteMail },
+  });
+  if (!athlete) throw new AppError(httpStatus.NOT_FOUND, 'Athlete not found');
+
+  const purchases = await prisma.packagePurchase.findMany({
+    where: {
+      athleteId: athlete.id,
+      status: PackagePurchaseStatus.ACTIVE,
+      expiresAt: { gt: new Date() },
+    },
+    include: {
+      coach: { select: { id: true, fullName: true, profile: true } },
+      package: { select: { id: true, title: true } },
+    },
+    orderBy: { expiresAt: 'asc' },
+  });
+
+  const byCoach = new Map<
+    string,
+    {
+      coach: (typeof purchases)[number]['coach'];
+      balance: number;
+      purchases: typeof purchases;
+    }
+  >();
+  purchases.forEach(purchase => {
+    const entry = byCoach.get(purchase.coachId) ?? {
+      coach: purchase.coach,
+      balance: 0,
+      purchases: [],
+    };
+    entry.balance += purchase.creditsRemaining;
+    entry.purchases.push(purchase);
+    byCoach.set(purchase.coachId, entry);
+  });
+
+  return [...byCoach.values()];
+};
+
+// Spend one credit (soonest to expire first) inside the booking transaction.
+// Returns the purchase it came from, or null when the athlete has none.
+const consumeCredit = async (
+  tx: Prisma.TransactionClient,
+  athleteId: string,
+  coachId: string,
+) => {
+  const purchase = await tx.packagePurchase.findFirst({
+    where: usableCreditWhere(athleteId, coachId),
+    orderBy: { expiresAt: 'asc' },
+  });
+  if (!purchase) return null;
+
+  const { count } = await tx.packagePurchase.updateMany({
+    where: { id: purchase.id, creditsRemaining: { gt: 0 } },
+    data: { creditsRemaining: { decrement: 1 } },
+  });
+
+  return count ? purchase : null;
+};
+
+const restoreCredit = (tx: Prisma.TransactionClient, purchaseId: string) =>
+  tx.packagePurchase.update({
+    where: { id: purchaseId },
+    data: { creditsRemaining: { increment: 1 } },
+  });
+
+export const PackageServices = {
+  createPackage,
+  getMyPackages,
+  updatePackage,
+  getCoachPackages,
+  purchasePackage,
+  activatePurchase,
+  cancelPendingPurchase,
+  getCreditBalance,
+  getMyCredits,
+  consumeCredit,
+  restoreCredit,
+};
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+const createPackageZodSchema = z.object({
+  body: z.object({
+    title: z.string().min(1),
+    description: z.string().optional(),
+    sessionCount: z.number().int().min(2).max(100),
+    price: z.number().positive(),
+    validityDays: z.number().int().min(7).max(730).optional(),
+  }),
+});
+
+const updatePackageZodSchema = z.object({
+  body: z.object({
+    title: z.string().min(1).optional(),
+    description: z.string().optional(),
+    sessionCount: z.number().int().min(2).max(100).optional(),
+    price: z.number().positive().optional(),
+    validityDays: z.number().int().min(7).max(730).optional(),
+    isActive: z.boolean().optional(),
+  }),
+});
+
+export const PackageValidation = {
+  createPackageZodSchema,
+  updatePackageZodSchema,
+};
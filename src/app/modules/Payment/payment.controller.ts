@@ -16,10 +16,9 @@ const getAllForAdmin = catchAsync(async (req: Request, res: Response) => {
 });
 
 const getAllForUser = catchAsync(async (req: Request, res: Response) => {
-  const userId = req.user?.id;
-  const query = { ...req.query, userId };
+  const email = req.user?.email;
 
-  const result = await PaymentService.getAllPayments(query);
+  const result = await PaymentService.getMyPayments(email, req.query);
 
   sendResponse(res, {
     statusCode: httpStatus.OK,
@@ -44,9 +43,9 @@ const getSingleForAdmin = catchAsync(async (req: Request, res: Response) => {
 
 const getSingleForUser = catchAsync(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const userId = req.user?.id;
+  const email = req.user?.email;
 
-  const result = await PaymentService.singleTransactionHistory({ id, userId });
+  const result = await PaymentService.singleTransactionHistory({ id, email });
 
   sendResponse(res, {
     statusCode: httpStatus.OK,
@@ -57,9 +56,9 @@ const getSingleForUser = catchAsync(async (req: Request, res: Response) => {
 });
 const singleTransactionHistoryBySessionId = catchAsync(async (req: Request, res: Response) => {
   const { stripeSessionId } = req.params;
-  const userId = req.user?.id;
+  const email = req.user?.email;
 
-  const result = await PaymentService.singleTransactionHistoryBySessionId({ stripeSessionId, userId });
+  const result = await PaymentService.singleTransactionHistoryBySessionId({ stripeSessionId, email });
 
   sendResponse(res, {
     statusCode: httpStatus.OK,
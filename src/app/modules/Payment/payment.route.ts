@@ -16,11 +16,19 @@ router.get(
   auth(UserRoleEnum.ADMIN),
   PaymentController.getSingleForAdmin,
 );
-router.get('/', PaymentController.getAllForUser);
-router.get('/:id', PaymentController.getSingleForUser);
+router.get(
+  '/',
+  auth(UserRoleEnum.COACH, UserRoleEnum.ATHLETE),
+  PaymentController.getAllForUser,
+);
+router.get(
+  '/:id',
+  auth(UserRoleEnum.COACH, UserRoleEnum.ATHLETE),
+  PaymentController.getSingleForUser,
+);
 router.get(
   '/session/:stripeSessionId',
- 
+  auth(UserRoleEnum.COACH, UserRoleEnum.ATHLETE),
   PaymentController.singleTransactionHistoryBySessionId,
 );
 
@@ -2,9 +2,17 @@ import httpStatus from 'http-status';
 import QueryBuilder from '../../builder/QueryBuilder';
 import { prisma } from '../../utils/prisma';
 import AppError from '../../errors/AppError';
-import { UserRoleEnum } from '@prisma/client';
+import { Prisma, UserRoleEnum } from '@prisma/client';
 
-const getAllPayments = async (query: Record<string, any>) => {
+// Restrict payments to the ones where the user is the paying athlete or the coach
+const ownerScope = (email: string): Prisma.PaymentWhereInput => ({
+  OR: [{ coach: { email } }, { athlete: { email } }],
+});
+
+const getAllPayments = async (
+  query: Record<string, any>,
+  scope: Prisma.PaymentWhereInput = {},
+) => {
   const paymentQuery = new QueryBuilder<typeof prisma.payment>(
     prisma.payment,
     query,
@@ -18,11 +26,15 @@ const getAllPayments = async (query: Record<string, any>) => {
       'stripeSessionId',
     ])
     .filter()
+    .where(scope)
     .sort()
     .customFields({
       id: true,
+      type: true,
       amount: true,
       coachId: true,
+      athleteId: true,
+      bookingId: true,
       paymentMethodType: true,
       createdAt: true,
       updatedAt: true,
@@ -36,6 +48,19 @@ const getAllPayments = async (query: Record<string, any>) => {
           email: true,
         },
       },
+      athlete: {
+        select: {
+          fullName: true,
+          email: true,
+        },
+      },
+      booking: {
+        select: {
+          id: true,
+          bookingDate: true,
+          status: true,
+        },
+      },
     })
     .exclude()
     .paginate()
@@ -43,16 +68,26 @@ const getAllPayments = async (query: Record<string, any>) => {
   return result;
 };
 
+const getMyPayments = async (email: string, query: Record<string, any>) => {
+  return getAllPayments(query, ownerScope(email));
+};
+
 const singleTransactionHistory = async (query: {
   id: string;
-  userId?: string;
+  email?: string;
 }) => {
-  const result = await prisma.payment.findUnique({
-    where: query,
+  const result = await prisma.payment.findFirst({
+    where: {
+      id: query.id,
+      ...(query.email && ownerScope(query.email)),
+    },
     select: {
       id: true,
+      type: true,
       amount: true,
       coachId: true,
+      athleteId: true,
+      bookingId: true,
       paymentMethodType: true,
       createdAt: true,
       stripeCustomerId: true,
@@ -66,6 +101,19 @@ const singleTransactionHistory = async (query: {
           email: true,
         },
       },
+      athlete: {
+        select: {
+          fullName: true,
+          email: true,
+        },
+      },
+      booking: {
+        select: {
+          id: true,
+          bookingDate: true,
+          status: true,
+        },
+      },
     },
   });
   if (!result) {
@@ -75,14 +123,20 @@ const singleTransactionHistory = async (query: {
 };
 const singleTransactionHistoryBySessionId = async (query: {
   stripeSessionId: string;
-  userId?: string;
+  email?: string;
 }) => {
-  const result = await prisma.payment.findUnique({
-    where: query,
+  const result = await prisma.payment.findFirst({
+    where: {
+      stripeSessionId: query.stripeSessionId,
+      ...(query.email && ownerScope(query.email)),
+    },
     select: {
       id: true,
+      type: true,
       amount: true,
       coachId: true,
+      athleteId: true,
+      bookingId: true,
       paymentMethodType: true,
       createdAt: true,
       stripeCustomerId: true,
@@ -96,6 +150,19 @@ const singleTransactionHistoryBySessionId = async (query: {
           email: true,
         },
       },
+      athlete: {
+        select: {
+          fullName: true,
+          email: true,
+        },
+      },
+      booking: {
+        select: {
+          id: true,
+          bookingDate: true,
+          status: true,
+        },
+      },
     },
   });
   if (!result) {
@@ -122,6 +189,7 @@ const cancelPayment = async (
 
 export const PaymentService = {
   getAllPayments,
+  getMyPayments,
   singleTransactionHistory,
   cancelPayment,
   singleTransactionHistoryBySessionId,
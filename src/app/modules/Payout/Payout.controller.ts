@@ -0,0 +1,71 @@
+import catchAsync from '../../utils/catchAsync';
+import sendResponse from '../../utils/sendResponse';
+import httpStatus from 'http-status';
+import { Request, Response } from 'express';
+import { PayoutServices } from './Payout.service';
+
+const createOnboardingLink = catchAsync(async (req: Request, res: Response) => {
+  const coachMail = req.user?.email;
+  const result = await PayoutServices.createOnboardingLink(coachMail);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Stripe onboarding link created',
+    data: result,
+  });
+});
+
+const getConnectStatus = catchAsync(async (req: Request, res: Response) => {
+  const coachMail = req.user?.email;
+  const result = await PayoutServices.getConnectStatus(coachMail);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Stripe account status retrieved',
+    data: result,
+  });
+});
+
+const getMyPayouts = catchAsync(async (req: Request, res: Response) => {
+  const coachMail = req.user?.email;
+  const result = await PayoutServices.getMyPayouts(coachMail, req.query);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Payouts retrieved successfully',
+    ...result,
+  });
+});
+
+const getAllPayouts = catchAsync(async (req: Request, res: Response) => {
+  const result = await PayoutServices.getAllPayouts(req.query);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'All payouts retrieved successfully (Admin)',
+    ...result,
+  });
+});
+
+const retryPayout = catchAsync(async (req: Request, res: Response) => {
+  const result = await PayoutServices.retryPayout(req.params.id);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Payout retried',
+    data: result,
+  });
+});
+
+export const PayoutController = {
+  createOnboardingLink,
+  getConnectStatus,
+  getMyPayouts,
+  getAllPayouts,
+  retryPayout,
+};
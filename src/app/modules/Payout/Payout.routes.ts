@@ -0,0 +1,26 @@
+import express from 'express';
+import { PayoutController } from './Payout.controller';
+import auth from '../../middlewares/auth';
+import { UserRoleEnum } from '@prisma/client';
+
+const router = express.Router();
+
+router.post(
+  '/connect/onboard',
+  auth(UserRoleEnum.COACH),
+  PayoutController.createOnboardingLink,
+);
+router.get(
+  '/connect/status',
+  auth(UserRoleEnum.COACH),
+  PayoutController.getConnectStatus,
+);
+router.get('/my', auth(UserRoleEnum.COACH), PayoutController.getMyPayouts);
+router.get('/admin', auth(UserRoleEnum.ADMIN), PayoutController.getAllPayouts);
+router.post(
+  '/:id/retry',
+  auth(UserRoleEnum.ADMIN),
+  PayoutController.retryPayout,
+);
+
+export const PayoutRoutes = router;
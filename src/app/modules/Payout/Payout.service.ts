@@ -0,0 +1,411 @@
+import httpStatus from 'http-status';
+import Stripe from 'stripe';
+import {
+  ConnectStatus,
+  PaymentStatus,
+  PaymentType,
+  PayoutStatus,
+} from '@prisma/client';
+import { prisma } from '../../utils/prisma';
+import { stripe } from '../../utils/stripe';
+import AppError from '../../errors/AppError';
+import QueryBuilder from '../../builder/QueryBuilder';
+import config from '../../../config';
+import { createNotification } from '../../middlewares/notify';
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const toConnectStatus = (account: Stripe.Account): ConnectStatus => {
+  if (account.requirements?.disabled_reason) return ConnectStatus.RESTRICTED;
+  if (account.capabilities?.transfers === 'active' && account.payouts_enabled)
+    return ConnectStatus.ACTIVE;
+  return ConnectStatus.PENDING;
+};
+
+// Create (or reuse) the coach's Express account and return an onboarding link
+const createOnboardingLink = async (coachMail: string) => {
+  const coach = await prisma.coach.findUnique({ where: { email: coachMail } });
+  if (!coach) throw new AppError(httpStatus.NOT_FOUND, 'Coach not found');
+
+  let accountId = coach.stripeAccountId;
+  if (!accountId) {
+    const account = await stripe.accounts.create({
+      type: 'express',
+      email: coach.email,
+      capabilities: { transfers: { requested: true } },
+      metadata: { coachId: coach.id },
+    });
+    accountId = account.id;
+
+    await prisma.coach.update({
+      where: { id: coach.id },
+      data: {
+        stripeAccountId: accountId,
+        connectStatus: ConnectStatus.PENDING,
+      },
+    });
+  }
+
+  const accountLink = await stripe.accountLinks.create({
+    account: accountId,
+    type: 'account_onboarding',
+    refresh_url: `${config.base_url_client}/coach/payouts/onboarding/refresh`,
+    return_url: `${config.base_url_client}/coach/payouts/onboarding/complete`,
+  });
+
+  return {
+    url: accountLink.url,
+    expiresAt: new Date(accountLink.expires_at * 1000),
+  };
+};
+
+// Store the latest Connect state on the coach (webhook + status endpoint)
+const syncConnectAccount = async (account: Stripe.Account) => {
+  const coach = await prisma.coach.findUnique({
+    where: { stripeAccountId: account.id },
+  });
+  if (!coach) return null;
+
+  const connectStatus = toConnectStatus(account);
+  const payoutsEnabled = connectStatus === ConnectStatus.ACTIVE;
+
+  const updated = await prisma.coach.update({
+    where: { id: coach.id },
+    data: { connectStatus, payoutsEnabled },
+    select: {
+      id: true,
+      stripeAccountId: true,
+      connectStatus: true,
+      payoutsEnabled: true,
+    },
+  });
+
+  // Onboarding just finished → send everything the coach earned meanwhile
+  if (payoutsEnabled && !coach.payoutsEnabled) {
+    await releasePendingPayouts(coach.id);
+  }
+
+  return updated;
+};
+
+const getConnectStatus = async (coachMail: string) => {
+  const coach = await prisma.coach.findUnique({ where: { email: coachMail } });
+  if (!coach) throw new AppError(httpStatus.NOT_FOUND, 'Coach not found');
+
+  if (!coach.stripeAccountId) {
+    return {
+      stripeAccountId: null,
+      connectStatus: coach.connectStatus,
+      payoutsEnabled: coach.payoutsEnabled,
+    };
+  }
+
+  const account = await stripe.accounts.retrieve(coach.stripeAccountId);
+  return syncConnectAccount(account);
+};
+
+// Ledger entry for a finished, checked-in session; transfers right away when possible
+const createPayoutForBooking = async (bookingId: string) => {
+  const existing = await prisma.payout.findUnique({ where: { bookingId } });
+  if (existing) return existing;
+
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { creditPurchase: true, series: true },
+  });
+
+  // Attendance was never verified, so the coach is not paid for it
+  if (!booking?.checkedInAt) return null;
+
+  // Sessions paid with a package credit earn their share of the package,
+  // series occurrences their share of the series checkout
+  let payment;
+  if (booking?.creditPurchase) {
+    payment = await prisma.payment.findFirst({
+      where: {
+        packagePurchaseId: booking.creditPurchase.id,
+        type: PaymentType.PACKAGE,
+        status: PaymentStatus.SUCCESS,
+      },
+    });
+  } else if (booking?.series) {
+    payment = await prisma.payment.findFirst({
+      where: {
+        seriesId: booking.series.id,
+        type: PaymentType.SESSION,
+        status: {
+          in: [PaymentStatus.SUCCESS, PaymentStatus.PARTIALLY_REFUNDED],
+        },
+      },
+    });
+  } else {
+    payment = await prisma.payment.findFirst({
+      where: {
+        bookingId,
+        type: PaymentType.SESSION,
+        status: PaymentStatus.SUCCESS,
+      },
+    });
+  }
+
+  // Free session, nothing to pay out
+  if (!payment) return null;
+
+  const grossAmount = booking?.creditPurchase
+    ? roundMoney(payment.amount / booking.creditPurchase.sessionCount)
+    : booking?.series
+      ? (booking.seriesPrice ?? booking.series.pricePerSession)
+      : payment.amount;
+
+  const feePercent = config.stripe.platform_fee_percent;
+  const platformFee = roundMoney((grossAmount * feePercent) / 100);
+
+  const payout = await prisma.payout.create({
+    data: {
+      coachId: payment.coachId,
+      bookingId,
+      paymentId: payment.id,
+      grossAmount,
+      platformFee,
+      netAmount: roundMoney(grossAmount - platformFee),
+      currency: payment.currency,
+      status: PayoutStatus.PENDING,
+    },
+  });
+
+  return transferPayout(payout.id);
+};
+
+const transferPayout = async (payoutId: string) => {
+  const payout = await prisma.payout.findUnique({
+    where: { id: payoutId },
+    include: {
+      coach: { include: { user: { select: { id: true } } } },
+      payment: true,
+    },
+  });
+  if (!payout) throw new AppError(httpStatus.NOT_FOUND, 'Payout not found');
+
+  if (payout.status === PayoutStatus.TRANSFERRED) return payout;
+
+  // Stays PENDING until the coach finishes onboarding
+  if (!payout.coach.payoutsEnabled || !payout.coach.stripeAccountId) {
+    return payout;
+  }
+
+  try {
+    // Tie the transfer to the original charge so it does not depend on the platform balance
+    let sourceTransaction: string | undefined;
+    if (payout.payment.stripePaymentId) {
+      const paymentIntent = await stripe.paymentIntents.retrieve(
+        payout.payment.stripePaymentId,
+      );
+      sourceTransaction = (paymentIntent.latest_charge as string) ?? undefined;
+    }
+
+    const transfer = await stripe.transfers.create(
+      {
+        amount: Math.round(payout.netAmount * 100),
+        currency: payout.currency,
+        destination: payout.coach.stripeAccountId,
+        transfer_group: `booking_${payout.bookingId}`,
+        source_transaction: sourceTransaction,
+        metadata: { payoutId: payout.id, bookingId: payout.bookingId },
+      },
+      // A failed attempt's key would only replay its failure
+      { idempotencyKey: `payout_${payout.id}_${payout.failedAttempts}` },
+    );
+
+    const transferred = await prisma.payout.update({
+      where: { id: payout.id },
+      data: {
+        status: PayoutStatus.TRANSFERRED,
+        stripeTransferId: transfer.id,
+        transferredAt: new Date(),
+        failureReason: null,
+      },
+    });
+
+    await createNotification({
+      receiverId: payout.coach.user.id,
+      senderId: null,
+      title: 'Payout Sent',
+      body: `$${payout.netAmount} for your session has been sent to your Stripe account.`,
+    });
+
+    return transferred;
+  } catch (error) {
+    console.log('❌ Stripe Transfer Error:', error);
+    return prisma.payout.update({
+      where: { id: payout.id },
+      data: {
+        status: PayoutStatus.FAILED,
+        failureReason: (error as Error).message,
+        failedAttempts: { increment: 1 },
+      },
+    });
+  }
+};
+
+const releasePendingPayouts = async (coachId: string) => {
+  const pending = await prisma.payout.findMany({
+    where: {
+      coachId,
+      status: { in: [PayoutStatus.PENDING, PayoutStatus.FAILED] },
+    },
+    select: { id: true },
+  });
+
+  for (const payout of pending) {
+    await transferPayout(payout.id);
+  }
+
+  return pending.length;
+};
+
+const markTransferReversed = async (transfer: Stripe.Transfer) => {
+  const payout = await prisma.payout.findUnique({
+    where: { stripeTransferId: transfer.id },
+  });
+  if (!payout) return null;
+
+  return prisma.payout.update({
+    where: { id: payout.id },
+    data: { status: PayoutStatus.REVERSED },
+  });
+};
+
+// Totals the coach dashboard shows
+const getEarningsSummary = async (coachId: string) => {
+  const grouped = await prisma.payout.groupBy({
+    by: ['status'],
+    where: { coachId },
+    _sum: { grossAmount: true, platformFee: true, netAmount: true },
+  });
+
+  const sumFor = (statuses: PayoutStatus[]) =>
+    roundMoney(
+      grouped
+        .filter(g => statuses.includes(g.status))
+        .reduce((sum, g) => sum + (g._sum.netAmount || 0), 0),
+    );
+
+  const counted = grouped.filter(g => g.status !== PayoutStatus.REVERSED);
+
+  return {
+    totalEarned: sumFor([
+      PayoutStatus.TRANSFERRED,
+      PayoutStatus.PENDING,
+      PayoutStatus.FAILED,
+    ]),
+    transferred: sumFor([PayoutStatus.TRANSFERRED]),
+    pending: sumFor([PayoutStatus.PENDING, PayoutStatus.FAILED]),
+    grossRevenue: roundMoney(
+      counted.reduce((sum, g) => sum + (g._sum.grossAmount || 0), 0),
+    ),
+    platformFees: roundMoney(
+      counted.reduce((sum, g) => sum + (g._sum.platformFee || 0), 0),
+    ),
+  };
+};
+
+const getMyPayouts = async (coachMail: string, query: Record<string, any>) => {
+  const coach = await prisma.coach.findUnique({ where: { email: coachMail } });
+  if (!coach) throw new AppError(httpStatus.NOT_FOUND, 'Coach not found');
+
+  const payoutQuery = new QueryBuilder<typeof prisma.payout>(
+    prisma.payout,
+    query,
+  );
+  const result = await payoutQuery
+    .filter()
+    .where({ coachId: coach.id })
+    .sort()
+    .customFields({
+      id: true,
+      bookingId: true,
+      grossAmount: true,
+      platformFee: true,
+      netAmount: true,
+      currency: true,
+      status: true,
+      failureReason: true,
+      transferredAt: true,
+      createdAt: true,
+      booking: {
+        select: {
+          id: true,
+          bookingDate: true,
+          athlete: { select: { id: true, fullName: true, profile: true } },
+        },
+      },
+    })
+    .paginate()
+    .execute();
+
+  return {
+    meta: result.meta,
+    data: {
+      summary: await getEarningsSummary(coach.id),
+      connect: {
+        connectStatus: coach.connectStatus,
+        payoutsEnabled: coach.payoutsEnabled,
+      },
+      payouts: result.data,
+    },
+  };
+};
+
+const getAllPayouts = async (query: Record<string, any>) => {
+  const payoutQuery = new QueryBuilder<typeof prisma.payout>(
+    prisma.payout,
+    query,
+  );
+  return payoutQuery
+    .filter()
+    .sort()
+    .customFields({
+      id: true,
+      bookingId: true,
+      grossAmount: true,
+      platformFee: true,
+      netAmount: true,
+      currency: true,
+      status: true,
+      failureReason: true,
+      failedAttempts: true,
+      stripeTransferId: true,
+      transferredAt: true,
+      createdAt: true,
+      coach: { select: { id: true, fullName: true, email: true } },
+    })
+    .paginate()
+    .execute();
+};
+
+const retryPayout = async (id: string) => {
+  const payout = await prisma.payout.findUnique({ where: { id } });
+  if (!payout) throw new AppError(httpStatus.NOT_FOUND, 'Payout not found');
+
+  if (payout.status !== PayoutStatus.FAILED) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Only failed payouts can be retried',
+    );
+  }
+
+  return transferPayout(id);
+};
+
+export const PayoutServices = {
+  createOnboardingLink,
+  getConnectStatus,
+  syncConnectAccount,
+  createPayoutForBooking,
+  releasePendingPayouts,
+  markTransferReversed,
+  getEarningsSummary,
+  getMyPayouts,
+  getAllPayouts,
+  retryPayout,
+};
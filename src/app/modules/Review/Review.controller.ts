@@ -58,10 +58,40 @@ const updateIntoDb = catchAsync(async (req: Request, res: Response) => {
   });
 });
 
+const replyToReview = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { email } = req.user;
+  const result = await ReviewServices.replyToReview(
+    id,
+    email,
+    req.body.comment,
+  );
+  sendResponse(res, {
+    statusCode: httpStatus.CREATED,
+    success: true,
+    message: 'Successfully replied to Review',
+    data: result,
+  });
+});
+
+const updateReply = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { email } = req.user;
+  const result = await ReviewServices.updateReply(id, email, req.body.comment);
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Successfully updated Review reply',
+    data: result,
+  });
+});
+
 export const ReviewController = {
   createIntoDb,
   getAllReview,
   getMyReview,
   getReviewById,
   updateIntoDb,
+  replyToReview,
+  updateReply,
 };
@@ -2,6 +2,8 @@ import express from 'express';
 import { ReviewController } from './Review.controller';
 import auth from '../../middlewares/auth';
 import { UserRoleEnum } from '@prisma/client';
+import validateRequest from '../../middlewares/validateRequest';
+import { ReviewValidation } from './Review.validation';
 
 const router = express.Router();
 
@@ -21,4 +23,18 @@ router.post('/', auth(UserRoleEnum.ATHLETE), ReviewController.createIntoDb);
 
 router.patch('/:id', auth(UserRoleEnum.ATHLETE), ReviewController.updateIntoDb);
 
+// Coach's public reply to a review of their session
+router.post(
+  '/:id/reply',
+  auth(UserRoleEnum.COACH),
+  validateRequest.body(ReviewValidation.reviewReplyZodSchema),
+  ReviewController.replyToReview,
+);
+router.patch(
+  '/:id/reply',
+  auth(UserRoleEnum.COACH),
+  validateRequest.body(ReviewValidation.reviewReplyZodSchema),
+  ReviewController.updateReply,
+);
+
 export const ReviewRoutes = router;
@@ -2,9 +2,34 @@ import { PrismaClient, BookingStatus, UserRoleEnum } from '@prisma/client';
 import { Request } from 'express';
 import AppError from '../../errors/AppError';
 import httpStatus from 'http-status';
+import { createNotification } from '../../middlewares/notify';
 
 const prisma = new PrismaClient();
 
+// A coach can edit their reply for this long after posting it
+const REPLY_EDIT_WINDOW_HOURS = 48;
+
+// The validated body is not written back to the request, so reply text is
+// trimmed here
+const toReplyComment = (text: string) => text.trim();
+
+// Rating aggregates live on the coach so the coach search can rank by them
+const refreshCoachRating = async (coachId: string) => {
+  const { _avg, _count } = await prisma.review.aggregate({
+    where: { coachId },
+    _avg: { rating: true },
+    _count: { _all: true },
+  });
+
+  await prisma.coach.update({
+    where: { id: coachId },
+    data: {
+      avgRating: parseFloat((_avg.rating ?? 0).toFixed(2)),
+      totalReviews: _count._all,
+    },
+  });
+};
+
 const createIntoDb = async (req: Request) => {
   const { email } = req.user;
   const { bookingId, rating, comment } = req.body;
@@ -29,6 +54,7 @@ const createIntoDb = async (req: Request) => {
       athleteId: true,
       coachId: true,
       status: true,
+      checkedInAt: true,
       review: {
         select: {
           id: true,
@@ -58,6 +84,13 @@ const createIntoDb = async (req: Request) => {
     );
   }
 
+  if (!existingBooking.checkedInAt) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Only sessions with a verified check-in can be reviewed',
+    );
+  }
+
   // Create the review
   const result = await prisma.review.create({
     data: {
@@ -110,6 +143,8 @@ const createIntoDb = async (req: Request) => {
     },
   });
 
+  await refreshCoachRating(existingBooking.coachId);
+
   return result;
 };
 
@@ -144,6 +179,7 @@ const getAllReview = async (query: Record<string, any>) => {
       coachId: true,
       rating: true,
       comment: true,
+      reply: true,
       createdAt: true,
       updatedAt: true,
       booking: {
@@ -231,6 +267,7 @@ const getMyReview = async (email: string) => {
       coachId: true,
       rating: true,
       comment: true,
+      reply: true,
       createdAt: true,
       updatedAt: true,
       booking: {
@@ -292,6 +329,7 @@ const getReviewByIdFromDB = async (id: string) => {
       coachId: true,
       rating: true,
       comment: true,
+      reply: true,
       createdAt: true,
       updatedAt: true,
       booking: {
@@ -353,6 +391,7 @@ const updateIntoDb = async (id: string, email: string, data: Partial<any>) => {
     where: { id },
     select: {
       id: true,
+      coachId: true,
       athlete: {
         select: {
           email: true,
@@ -379,13 +418,112 @@ const updateIntoDb = async (id: string, email: string, data: Partial<any>) => {
       comment,
     },
   });
+
+  if (rating !== undefined) {
+    await refreshCoachRating(existingReview.coachId);
+  }
   return result;
 };
 
+// Review of one of the coach's sessions, with who to notify about the reply
+const getReviewForReply = async (id: string, coachEmail: string) => {
+  const review = await prisma.review.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      reply: true,
+      athlete: { select: { user: { select: { id: true } } } },
+      coach: {
+        select: {
+          email: true,
+          fullName: true,
+          user: { select: { id: true } },
+        },
+      },
+    },
+  });
+
+  if (!review) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Review not found');
+  }
+
+  if (review.coach.email !== coachEmail) {
+    throw new AppError(
+      httpStatus.FORBIDDEN,
+      'Unauthorized to reply to this review',
+    );
+  }
+
+  return review;
+};
+
+// The coach's single public reply to a review
+const replyToReview = async (id: string, email: string, text: string) => {
+  const review = await getReviewForReply(id, email);
+  const comment = toReplyComment(text);
+
+  const now = new Date();
+  const { count } = await prisma.review.updateMany({
+    where: { id, reply: { isSet: false } },
+    data: { reply: { set: { comment, createdAt: now, updatedAt: now } } },
+  });
+  if (!count) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'This review already has a reply, edit it instead',
+    );
+  }
+
+  await createNotification({
+    receiverId: review.athlete.user.id,
+    senderId: review.coach.user.id,
+    title: 'Coach Replied',
+    body: `${review.coach.fullName} replied to your review: "${comment}"`,
+  });
+
+  return getReviewByIdFromDB(id);
+};
+
+const updateReply = async (id: string, email: string, text: string) => {
+  const review = await getReviewForReply(id, email);
+  const comment = toReplyComment(text);
+
+  if (!review.reply) {
+    throw new AppError(httpStatus.NOT_FOUND, 'This review has no reply yet');
+  }
+
+  const editableUntil =
+    review.reply.createdAt.getTime() + REPLY_EDIT_WINDOW_HOURS * 60 * 60 * 1000;
+  if (Date.now() > editableUntil) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `A reply can only be edited within ${REPLY_EDIT_WINDOW_HOURS} hours of posting it`,
+    );
+  }
+
+  await prisma.review.update({
+    where: { id },
+    data: {
+      reply: { set: { ...review.reply, comment, updatedAt: new Date() } },
+    },
+  });
+
+  await createNotification({
+    receiverId: review.athlete.user.id,
+    senderId: review.coach.user.id,
+    title: 'Coach Reply Updated',
+    body: `${review.coach.fullName} updated their reply to your review: "${comment}"`,
+  });
+
+  return getReviewByIdFromDB(id);
+};
+
 export const ReviewServices = {
   createIntoDb,
   getAllReview,
   getMyReview,
   getReviewByIdFromDB,
   updateIntoDb,
+  replyToReview,
+  updateReply,
 };
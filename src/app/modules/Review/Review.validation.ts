@@ -13,7 +13,14 @@ const updateReviewZodSchema = z.object({
   }),
 });
 
+const reviewReplyZodSchema = z.object({
+  body: z.object({
+    comment: z.string().trim().min(1).max(1000),
+  }),
+});
+
 export const ReviewValidation = {
   createReviewZodSchema,
   updateReviewZodSchema,
+  reviewReplyZodSchema,
 };
@@ -1,16 +1,180 @@
-// HELPER FUNCTION: Format Time with AM/PM
+import {
+  formatTimeInZone,
+  resolveTimeZone,
+  toZonedCalendarDate,
+  zonedTimeToUtc,
+} from '../../utils/timezone';
+
+// HELPER FUNCTION: Format Time with AM/PM (in the given zone when provided)
+
+export const formatTimeWithAMPM = (date: Date, timeZone?: string): string => {
+  if (timeZone) {
+    return formatTimeInZone(date, timeZone);
+  }
 
-export const formatTimeWithAMPM = (date: Date): string => {
   let hours = date.getHours();
   const minutes = date.getMinutes();
   const ampm = hours >= 12 ? 'PM' : 'AM';
 
   // Convert to 12-hour format
   hours = hours % 12;
-  hours = hours ? hours : 12; 
+  hours = hours ? hours : 12;
 
   // Add leading zero to minutes if needed
   const minutesStr = minutes < 10 ? '0' + minutes : minutes;
 
   return `${hours}:${minutesStr} ${ampm}`;
 };
+
+// "14:30" -> "2:30 PM" (wall-clock template times, no date involved)
+export const formatClockTime = (time: string): string => {
+  const [hour, minute] = time.split(':').map(Number);
+  const hours12 = hour % 12 || 12;
+  return `${hours12}:${String(minute).padStart(2, '0')} ${hour >= 12 ? 'PM' : 'AM'}`;
+};
+
+type TTimeWindow = { startTime: string; endTime: string };
+
+// "09:30" on the given slot date, in the coach's zone
+export const atTimeOfDay = (
+  slotDate: Date,
+  time: string,
+  timeZone: string,
+): Date => zonedTimeToUtc(slotDate, time, timeZone);
+
+// Midnight UTC of the local date in `timeZone` — the same key
+// `new Date("2024-02-20")` produces for slotDate
+export const toSlotDate = (date: Date, timeZone = 'UTC'): Date =>
+  toZonedCalendarDate(date, timeZone);
+
+export const addDays = (date: Date, days: number): Date => {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next;
+};
+
+export const SESSION_LENGTHS = [30, 45, 60, 90];
+
+export type TSlotSettings = {
+  sessionLength: number;
+  bufferMinutes: number;
+  breaks: TTimeWindow[];
+  timezone: string;
+};
+
+export const getSlotSettings = (coach: {
+  sessionLength?: number | null;
+  bufferMinutes?: number | null;
+  breaks?: TTimeWindow[] | null;
+  timezone?: string | null;
+}): TSlotSettings => ({
+  sessionLength: coach.sessionLength || 60,
+  bufferMinutes: coach.bufferMinutes || 0,
+  breaks: coach.breaks || [],
+  timezone: resolveTimeZone(coach.timezone),
+});
+
+export const isOverlapping = (
+  a: { startTime: Date; endTime: Date },
+  b: { startTime: Date; endTime: Date },
+) => a.startTime < b.endTime && b.startTime < a.endTime;
+
+// Largest group a single slot can take
+export const MAX_SLOT_CAPACITY = 50;
+
+// Imported calendars: how far ahead busy times are read, how often URL
+// calendars are fetched again, and limits per coach / per file
+export const EXTERNAL_CALENDAR_HORIZON_DAYS = 90;
+export const EXTERNAL_CALENDAR_SYNC_MINUTES = 30;
+export const MAX_EXTERNAL_CALENDARS = 5;
+export const MAX_ICS_FILE_BYTES = 2 * 1024 * 1024;
+
+// Seat counts shown for 1:1 and group slots alike
+export const getSeatInfo = (slot: {
+  capacity: number;
+  bookedSeats: number;
+  seatPrice: number | null;
+}) => ({
+  capacity: slot.capacity,
+  bookedSeats: slot.bookedSeats,
+  remainingSeats: Math.max(slot.capacity - slot.bookedSeats, 0),
+  seatPrice: slot.seatPrice,
+  isGroup: slot.capacity > 1,
+});
+
+// Slot falls (even partly) inside one of the coach's blackout ranges
+export const isInBlackout = (
+  slot: { startTime: Date; endTime: Date },
+  blackouts: { startAt: Date; endAt: Date }[],
+) =>
+  blackouts.some(blackout =>
+    isOverlapping(slot, {
+      startTime: blackout.startAt,
+      endTime: blackout.endAt,
+    }),
+  );
+
+// Split availability windows of one date into slots of `sessionLength`,
+// leaving `bufferMinutes` after each one and skipping the coach's breaks
+export const buildTimeSlots = (
+  slotDate: Date,
+  windows: TTimeWindow[],
+  settings: TSlotSettings,
+) => {
+  const slots: { startTime: Date; endTime: Date }[] = [];
+  const breaks = settings.breaks.map(window => ({
+    startTime: atTimeOfDay(slotDate, window.startTime, settings.timezone),
+    endTime: atTimeOfDay(slotDate, window.endTime, settings.timezone),
+  }));
+
+  for (const window of windows) {
+    const windowStart = atTimeOfDay(
+      slotDate,
+      window.startTime,
+      settings.timezone,
+    );
+    const windowEnd = atTimeOfDay(slotDate, window.endTime, settings.timezone);
+    // Stepped in elapsed time, not the server's local wall clock
+    let currentTime = new Date(windowStart);
+
+    while (currentTime < windowEnd) {
+      const slotStart = new Date(currentTime);
+      const slotEnd = new Date(
+        slotStart.getTime() + settings.sessionLength * 60 * 1000,
+      );
+
+      // Don't create slot if it exceeds end time
+      if (slotEnd > windowEnd) {
+        break;
+      }
+
+      // Slot runs into a break → continue right after the break
+      const blockingBreak = breaks.find(item =>
+        isOverlapping({ startTime: slotStart, endTime: slotEnd }, item),
+      );
+      if (blockingBreak) {
+        currentTime.setTime(blockingBreak.endTime.getTime());
+        continue;
+      }
+
+      slots.push({ startTime: slotStart, endTime: slotEnd });
+      currentTime = new Date(
+        currentTime.getTime() +
+          (settings.sessionLength + settings.bufferMinutes) * 60 * 1000,
+      );
+    }
+  }
+
+  return slots.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+};
+
+// Display times in `timeZone` plus exact ISO instants for clients that localize themselves
+export const formatSlotTimes = (
+  slot: { startTime: Date; endTime: Date },
+  timeZone: string,
+) => ({
+  startTime: formatTimeWithAMPM(slot.startTime, timeZone), // "10:00 AM"
+  endTime: formatTimeWithAMPM(slot.endTime, timeZone), // "11:00 AM"
+  startAt: slot.startTime.toISOString(),
+  endAt: slot.endTime.toISOString(),
+});
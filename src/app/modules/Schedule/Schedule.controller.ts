@@ -7,9 +7,9 @@ import { ScheduleServices } from './Schedule.service';
 const createIntoDb = catchAsync(async (req: Request, res: Response) => {
   const result = await ScheduleServices.createIntoDb(req);
   sendResponse(res, {
-    statusCode: httpStatus.CREATED,
-    success: true,
-    message: 'Successfully created Schedule',
+    statusCode: result.success ? httpStatus.CREATED : httpStatus.CONFLICT,
+    success: result.success,
+    message: result.message,
     data: result,
   });
 });
@@ -43,9 +43,263 @@ const addNewSlotByCoach = catchAsync(async (req: Request, res: Response) => {
   });
 });
 
+const updateSlotCapacity = catchAsync(async (req: Request, res: Response) => {
+  const result = await ScheduleServices.updateSlotCapacity(
+    req.user.email,
+    req.params.slotId,
+    req.body,
+  );
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Slot capacity updated',
+    data: result,
+  });
+});
+
+const getSlotRoster = catchAsync(async (req: Request, res: Response) => {
+  const result = await ScheduleServices.getSlotRoster(
+    req.user.email,
+    req.params.slotId,
+  );
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Slot roster retrieved',
+    data: result,
+  });
+});
+
+const upsertTemplate = catchAsync(async (req: Request, res: Response) => {
+  const result = await ScheduleServices.upsertTemplate(
+    req.user.email,
+    req.body,
+  );
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Availability template saved',
+    data: result,
+  });
+});
+
+const getMyTemplate = catchAsync(async (req: Request, res: Response) => {
+  const result = await ScheduleServices.getMyTemplate(req.user.email);
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Availability template retrieved',
+    data: result,
+  });
+});
+
+const deactivateTemplate = catchAsync(async (req: Request, res: Response) => {
+  const result = await ScheduleServices.deactivateTemplate(req.user.email);
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Availability template deactivated',
+    data: result,
+  });
+});
+
+const materializeTemplate = catchAsync(async (req: Request, res: Response) => {
+  const result = await ScheduleServices.materializeMyTemplate(req.user.email);
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Availability generated from template',
+    data: result,
+  });
+});
+
+const upsertException = catchAsync(async (req: Request, res: Response) => {
+  const result = await ScheduleServices.upsertException(
+    req.user.email,
+    req.body,
+  );
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Availability exception saved',
+    data: result,
+  });
+});
+
+const deleteException = catchAsync(async (req: Request, res: Response) => {
+  const result = await ScheduleServices.deleteException(
+    req.user.email,
+    req.params.id,
+  );
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Availability exception removed',
+    data: result,
+  });
+});
+
+const getSlotSettings = catchAsync(async (req: Request, res: Response) => {
+  const result = await ScheduleServices.getSlotSettingsOfCoach(req.user.email);
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Slot settings retrieved',
+    data: result,
+  });
+});
+
+const updateSlotSettings = catchAsync(async (req: Request, res: Response) => {
+  const result = await ScheduleServices.updateSlotSettings(
+    req.user.email,
+    req.body,
+  );
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Slot settings updated',
+    data: result,
+  });
+});
+
+const createBlackout = catchAsync(async (req: Request, res: Response) => {
+  const result = await ScheduleServices.createBlackout(
+    req.user.email,
+    req.body,
+  );
+  sendResponse(res, {
+    statusCode: httpStatus.CREATED,
+    success: true,
+    message: result.affectedBookings.length
+      ? `Blackout saved, ${result.affectedBookings.length} booking(s) fall inside it`
+      : 'Blackout saved',
+    data: result,
+  });
+});
+
+const getMyBlackouts = catchAsync(async (req: Request, res: Response) => {
+  const result = await ScheduleServices.getMyBlackouts(req.user.email);
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Blackouts retrieved',
+    data: result,
+  });
+});
+
+const deleteBlackout = catchAsync(async (req: Request, res: Response) => {
+  const result = await ScheduleServices.deleteBlackout(
+    req.user.email,
+    req.params.id,
+  );
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Blackout removed',
+    data: result,
+  });
+});
+
+const handleBlackoutBookings = catchAsync(
+  async (req: Request, res: Response) => {
+    const result = await ScheduleServices.handleBlackoutBookings(
+      req.user.email,
+      req.params.id,
+      req.body,
+    );
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      success: true,
+      message:
+        result.action === 'NOTIFY'
+          ? `${result.notified.length} athlete(s) notified`
+          : `${result.cancelled.length} booking(s) cancelled`,
+      data: result,
+    });
+  },
+);
+
+const addExternalCalendar = catchAsync(async (req: Request, res: Response) => {
+  const result = await ScheduleServices.addExternalCalendar(
+    req.user.email,
+    req.body,
+    req.file,
+  );
+  sendResponse(res, {
+    statusCode: httpStatus.CREATED,
+    success: true,
+    message: result.report.conflicts.length
+      ? `Calendar imported, ${result.report.conflicts.length} booked slot(s) overlap its busy times`
+      : 'Calendar imported',
+    data: result,
+  });
+});
+
+const getMyExternalCalendars = catchAsync(
+  async (req: Request, res: Response) => {
+    const result = await ScheduleServices.getMyExternalCalendars(
+      req.user.email,
+    );
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      success: true,
+      message: 'Imported calendars retrieved',
+      data: result,
+    });
+  },
+);
+
+const syncExternalCalendar = catchAsync(async (req: Request, res: Response) => {
+  const result = await ScheduleServices.syncExternalCalendar(
+    req.user.email,
+    req.params.id,
+  );
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.calendar.lastSyncError
+      ? `Calendar could not be read: ${result.calendar.lastSyncError}`
+      : 'Calendar synced',
+    data: result,
+  });
+});
+
+const deleteExternalCalendar = catchAsync(
+  async (req: Request, res: Response) => {
+    const result = await ScheduleServices.deleteExternalCalendar(
+      req.user.email,
+      req.params.id,
+    );
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      success: true,
+      message: 'Imported calendar removed',
+      data: result,
+    });
+  },
+);
+
 export const ScheduleController = {
   createIntoDb,
   getSlotsByDate,
   addNewSlotByCoach,
   toggleSlotStatus,
+  updateSlotCapacity,
+  getSlotRoster,
+  upsertTemplate,
+  getMyTemplate,
+  deactivateTemplate,
+  materializeTemplate,
+  upsertException,
+  deleteException,
+  getSlotSettings,
+  updateSlotSettings,
+  createBlackout,
+  getMyBlackouts,
+  deleteBlackout,
+  handleBlackoutBookings,
+  addExternalCalendar,
+  getMyExternalCalendars,
+  syncExternalCalendar,
+  deleteExternalCalendar,
 };
@@ -2,6 +2,9 @@ import express from 'express';
 import { ScheduleController } from './Schedule.controller';
 import auth from '../../middlewares/auth';
 import { UserRoleEnum } from '@prisma/client';
+import validateRequest from '../../middlewares/validateRequest';
+import { ScheduleValidation } from './Schedule.validation';
+import { fileUploader } from '../../utils/fileUploader';
 
 const router = express.Router();
 
@@ -14,4 +17,112 @@ router.post('/', auth(UserRoleEnum.COACH), ScheduleController.createIntoDb);
 router.post('/slot/add-slot', auth(UserRoleEnum.COACH), ScheduleController.addNewSlotByCoach);
 router.patch('/slot/:slotId',auth(UserRoleEnum.COACH) ,ScheduleController.toggleSlotStatus);
 
+// Group sessions: seats per slot and who took them
+router.patch(
+  '/slot/:slotId/capacity',
+  auth(UserRoleEnum.COACH),
+  validateRequest.body(ScheduleValidation.updateSlotCapacityZodSchema),
+  ScheduleController.updateSlotCapacity,
+);
+router.get(
+  '/slot/:slotId/roster',
+  auth(UserRoleEnum.COACH),
+  ScheduleController.getSlotRoster,
+);
+
+// Session length, buffer and breaks used when generating slots
+router.get(
+  '/settings',
+  auth(UserRoleEnum.COACH),
+  ScheduleController.getSlotSettings,
+);
+router.put(
+  '/settings',
+  auth(UserRoleEnum.COACH),
+  validateRequest.body(ScheduleValidation.updateSlotSettingsZodSchema),
+  ScheduleController.updateSlotSettings,
+);
+
+// Weekly availability template
+router.get(
+  '/template',
+  auth(UserRoleEnum.COACH),
+  ScheduleController.getMyTemplate,
+);
+router.put(
+  '/template',
+  auth(UserRoleEnum.COACH),
+  validateRequest.body(ScheduleValidation.upsertTemplateZodSchema),
+  ScheduleController.upsertTemplate,
+);
+router.delete(
+  '/template',
+  auth(UserRoleEnum.COACH),
+  ScheduleController.deactivateTemplate,
+);
+router.post(
+  '/template/materialize',
+  auth(UserRoleEnum.COACH),
+  ScheduleController.materializeTemplate,
+);
+router.put(
+  '/template/exception',
+  auth(UserRoleEnum.COACH),
+  validateRequest.body(ScheduleValidation.upsertExceptionZodSchema),
+  ScheduleController.upsertException,
+);
+router.delete(
+  '/template/exception/:id',
+  auth(UserRoleEnum.COACH),
+  ScheduleController.deleteException,
+);
+
+// Blackout ranges (vacation, injury)
+router.get(
+  '/blackout',
+  auth(UserRoleEnum.COACH),
+  ScheduleController.getMyBlackouts,
+);
+router.post(
+  '/blackout',
+  auth(UserRoleEnum.COACH),
+  validateRequest.body(ScheduleValidation.createBlackoutZodSchema),
+  ScheduleController.createBlackout,
+);
+router.delete(
+  '/blackout/:id',
+  auth(UserRoleEnum.COACH),
+  ScheduleController.deleteBlackout,
+);
+router.post(
+  '/blackout/:id/bookings',
+  auth(UserRoleEnum.COACH),
+  validateRequest.body(ScheduleValidation.blackoutBookingsActionZodSchema),
+  ScheduleController.handleBlackoutBookings,
+);
+
+// Imported calendars (ICS URL or file) whose busy times block slots
+router.get(
+  '/external-calendar',
+  auth(UserRoleEnum.COACH),
+  ScheduleController.getMyExternalCalendars,
+);
+router.post(
+  '/external-calendar',
+  auth(UserRoleEnum.COACH),
+  fileUploader.uploadSingle,
+  validateRequest.body(ScheduleValidation.addExternalCalendarZodSchema),
+  ScheduleController.addExternalCalendar,
+);
+router.post(
+  '/external-calendar/:id/sync',
+  auth(UserRoleEnum.COACH),
+  ScheduleController.syncExternalCalendar,
+);
+router.delete(
+  '/external-calendar/:id',
+  auth(UserRoleEnum.COACH),
+  ScheduleController.deleteExternalCalendar,
+);
+
 export const ScheduleRoutes = router;
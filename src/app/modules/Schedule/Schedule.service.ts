@@ -1,13 +1,225 @@
 import { Request } from 'express';
+import axios from 'axios';
 import { prisma } from '../../utils/prisma';
-import { SlotStatus } from '@prisma/client';
-import { formatTimeWithAMPM } from './Schedule.constants';
+import {
+  AvailabilitySource,
+  BlackoutReason,
+  BookingStatus,
+  BusyBlock,
+  BusyConflict,
+  CoachBlackout,
+  ExternalCalendar,
+  ExternalCalendarSource,
+  SlotInactiveReason,
+  SlotStatus,
+  UserRoleEnum,
+} from '@prisma/client';
+import httpStatus from 'http-status';
+import AppError from '../../errors/AppError';
+import {
+  addDays,
+  atTimeOfDay,
+  buildTimeSlots,
+  EXTERNAL_CALENDAR_HORIZON_DAYS,
+  EXTERNAL_CALENDAR_SYNC_MINUTES,
+  formatSlotTimes,
+  getSeatInfo,
+  getSlotSettings,
+  isInBlackout,
+  isOverlapping,
+  MAX_EXTERNAL_CALENDARS,
+  MAX_ICS_FILE_BYTES,
+  MAX_SLOT_CAPACITY,
+  toSlotDate,
+  TSlotSettings,
+} from './Schedule.constants';
+import {
+  ACTIVE_BOOKING_STATUSES,
+  describeSessionTime,
+  seatHoldingBookingWhere,
+} from '../Booking/Booking.constants';
+import { BookingServices } from '../Booking/Booking.service';
+import {
+  formatDateInZone,
+  isValidTimeZone,
+  resolveTimeZone,
+} from '../../utils/timezone';
+import { createNotification } from '../../middlewares/notify';
+import { parseBusyBlocks } from '../../utils/ics';
+import { assertPublicHost, publicOnlyLookup } from '../../utils/network';
+
+type TDesiredSlot = { startTime: Date; endTime: Date };
+
+// Bookings that still need their slot
+const OCCUPYING_STATUSES: BookingStatus[] = [
+  ...ACTIVE_BOOKING_STATUSES,
+  BookingStatus.PENDING_PAYMENT,
+];
+
+const isSameTime = (a: TDesiredSlot, b: TDesiredSlot) =>
+  a.startTime.getTime() === b.startTime.getTime() &&
+  a.endTime.getTime() === b.endTime.getTime();
+
+const getDaySlotsWithBookings = (availabilityId: string) =>
+  prisma.timeSlot.findMany({
+    where: { availabilityId },
+    include: {
+      bookings: {
+        select: {
+          id: true,
+          status: true,
+          bookingDate: true,
+          athlete: { select: { id: true, fullName: true, email: true } },
+        },
+      },
+    },
+    orderBy: { startTime: 'asc' },
+  });
+
+type TDaySlot = Awaited<ReturnType<typeof getDaySlotsWithBookings>>[number];
+
+// Active bookings on slots that the new layout no longer contains
+const collectConflicts = (
+  existingSlots: TDaySlot[],
+  desiredSlots: TDesiredSlot[],
+  timeZone: string,
+) =>
+  existingSlots
+    .filter(slot => !desiredSlots.some(desired => isSameTime(desired, slot)))
+    .flatMap(slot =>
+      slot.bookings
+        .filter(booking => OCCUPYING_STATUSES.includes(booking.status))
+        .map(booking => ({
+          bookingId: booking.id,
+          status: booking.status,
+          bookingDate: booking.bookingDate,
+          athlete: booking.athlete,
+          slot: {
+            id: slot.id,
+            ...formatSlotTimes(slot, timeZone),
+          },
+        })),
+    );
+
+const findDayConflicts = async (
+  availabilityId: string,
+  desiredSlots: TDesiredSlot[],
+  timeZone: string,
+) =>
+  collectConflicts(
+    await getDaySlotsWithBookings(availabilityId),
+    desiredSlots,
+    timeZone,
+  );
+
+// Diff-based regeneration of one availability day:
+// - slots matching the new layout are kept (and reactivated if an earlier
+//   regeneration turned them off)
+// - slots outside the new layout are deleted, or only deactivated when a past
+//   booking still points at them
+// - slots holding an active booking are never touched and come back as
+//   conflicts, to be moved via POST /booking/reschedule/request
+const regenerateDaySlots = async (
+  availabilityId: string,
+  desiredSlots: TDesiredSlot[],
+  timeZone: string,
+) => {
+  const existingSlots = await getDaySlotsWithBookings(availabilityId);
+  const conflicts = collectConflicts(existingSlots, desiredSlots, timeZone);
+
+  const kept: string[] = [];
+  const reactivated: string[] = [];
+  const deactivated: string[] = [];
+  let removed: string[] = [];
+  // Slots that stay bookable or booked; new slots must not overlap them
+  const occupied: TDesiredSlot[] = [];
+
+  for (const slot of existingSlots) {
+    const matches = desiredSlots.some(desired => isSameTime(desired, slot));
+    const hasActiveBooking = slot.bookings.some(booking =>
+      OCCUPYING_STATUSES.includes(booking.status),
+    );
+
+    if (matches) {
+      if (
+        slot.status === SlotStatus.INACTIVE &&
+        slot.inactiveReason === SlotInactiveReason.OUT_OF_WINDOW
+      ) {
+        await prisma.timeSlot.update({
+          where: { id: slot.id },
+          data: { status: SlotStatus.ACTIVE, inactiveReason: null },
+        });
+        reactivated.push(slot.id);
+      } else {
+        kept.push(slot.id);
+      }
+      occupied.push(slot);
+      continue;
+    }
+
+    if (hasActiveBooking) {
+      occupied.push(slot);
+      continue;
+    }
+
+    if (slot.bookings.length) {
+      if (slot.status === SlotStatus.ACTIVE) {
+        await prisma.timeSlot.update({
+          where: { id: slot.id },
+          data: {
+            status: SlotStatus.INACTIVE,
+            inactiveReason: SlotInactiveReason.OUT_OF_WINDOW,
+          },
+        });
+      }
+      deactivated.push(slot.id);
+      continue;
+    }
+
+    removed.push(slot.id);
+  }
+
+  if (removed.length) {
+    // A slot booked since it was read is left in place
+    await prisma.timeSlot.deleteMany({
+      where: { id: { in: removed }, bookings: { none: {} } },
+    });
+    const booked = await prisma.timeSlot.findMany({
+      where: { id: { in: removed } },
+    });
+    occupied.push(...booked);
+    removed = removed.filter(id => !booked.some(slot => slot.id === id));
+  }
+
+  const toCreate = desiredSlots.filter(
+    desired => !occupied.some(slot => isOverlapping(desired, slot)),
+  );
+  if (toCreate.length) {
+    await prisma.timeSlot.createMany({
+      data: toCreate.map(slot => ({
+        availabilityId,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        isBooked: false,
+        status: SlotStatus.ACTIVE,
+      })),
+    });
+  }
+
+  return {
+    kept: kept.length,
+    reactivated: reactivated.length,
+    created: toCreate.length,
+    deactivated: deactivated.length,
+    removed: removed.length,
+    conflicts,
+  };
+};
 
 const createIntoDb = async (req: Request) => {
   const coachMail = req.user.email;
-  const { slotDate, startTime, endTime } = req.body;
-
-  const intervalTime = 60;
+  // rejectOnConflict: leave the day untouched if active bookings would fall outside it
+  const { slotDate, startTime, endTime, rejectOnConflict } = req.body;
 
   // Find coach by email
   const coach = await prisma.coach.findUnique({
@@ -18,18 +230,46 @@ const createIntoDb = async (req: Request) => {
     throw new Error('Coach not found');
   }
 
-  // Parse the slot date and times
-  const slotDateObj = new Date(slotDate);
+  const slotSettings = getSlotSettings(coach);
+  const timeZone = slotSettings.timezone;
 
-  // Create DateTime objects for start and end times on the slot date
-  const [startHour, startMinute] = startTime.split(':').map(Number);
-  const [endHour, endMinute] = endTime.split(':').map(Number);
+  // Parse the slot date ("2024-02-20", the coach's local date)
+  const slotDateObj = toSlotDate(new Date(slotDate));
+
+  // Start and end times are wall-clock times in the coach's timezone
+  const startDateTime = atTimeOfDay(slotDateObj, startTime, timeZone);
+  const endDateTime = atTimeOfDay(slotDateObj, endTime, timeZone);
+
+  // Generate time slots from the coach's session length, buffer and breaks
+  const desiredSlots = buildTimeSlots(
+    slotDateObj,
+    [{ startTime, endTime }],
+    slotSettings,
+  );
 
-  const startDateTime = new Date(slotDateObj);
-  startDateTime.setHours(startHour, startMinute, 0, 0);
+  const existingDay = await prisma.coachAvailability.findUnique({
+    where: {
+      coachId_slotDate: {
+        coachId: coach.id,
+        slotDate: slotDateObj,
+      },
+    },
+  });
 
-  const endDateTime = new Date(slotDateObj);
-  endDateTime.setHours(endHour, endMinute, 0, 0);
+  if (existingDay && rejectOnConflict) {
+    const conflicts = await findDayConflicts(
+      existingDay.id,
+      desiredSlots,
+      timeZone,
+    );
+    if (conflicts.length) {
+      return {
+        success: false,
+        message: `${conflicts.length} booking(s) fall outside the new availability. Reschedule them first.`,
+        conflicts,
+      };
+    }
+  }
 
   // Create or update CoachAvailability
   const availability = await prisma.coachAvailability.upsert({
@@ -43,6 +283,7 @@ const createIntoDb = async (req: Request) => {
       startTime: startDateTime,
       endTime: endDateTime,
       isActive: true,
+      source: AvailabilitySource.MANUAL,
       updatedAt: new Date(),
     },
     create: {
@@ -54,58 +295,35 @@ const createIntoDb = async (req: Request) => {
     },
   });
 
-  // Generate time slots based on interval
-  const schedules = [];
-  let currentTime = new Date(startDateTime);
-
-  while (currentTime < endDateTime) {
-    const slotStart = new Date(currentTime);
-    const slotEnd = new Date(currentTime);
-    slotEnd.setMinutes(slotEnd.getMinutes() + intervalTime);
-
-    // Don't create slot if it exceeds end time
-    if (slotEnd > endDateTime) {
-      break;
-    }
-
-    schedules.push({
-      availabilityId: availability.id,
-      startTime: slotStart,
-      endTime: slotEnd,
-      isBooked: false,
-      status: SlotStatus.ACTIVE,
-    });
-
-    currentTime.setMinutes(currentTime.getMinutes() + intervalTime);
-  }
+  // Keep / reactivate / deactivate / create instead of wiping the day
+  const report = await regenerateDaySlots(
+    availability.id,
+    desiredSlots,
+    timeZone,
+  );
 
-  // Delete existing time slots for this availability (optional, if updating)
-  await prisma.timeSlot.deleteMany({
+  const daySlots = await prisma.timeSlot.findMany({
     where: { availabilityId: availability.id },
+    orderBy: { startTime: 'asc' },
   });
 
-  // Create each time slot individually to get full records with IDs
-  const createdSlots = await Promise.all(
-    schedules.map(async schedule => {
-      return await prisma.timeSlot.create({
-        data: schedule,
-      });
-    }),
-  );
-
-  // Return with IDs (now available from createdSlots)
   return {
+    success: true,
+    message: report.conflicts.length
+      ? `Schedule updated. ${report.conflicts.length} booking(s) are outside the new availability and need to be rescheduled.`
+      : 'Successfully created Schedule',
     availability: {
       ...availability,
-      startTime: formatTimeWithAMPM(availability.startTime),
-      endTime: formatTimeWithAMPM(availability.endTime),
+      ...formatSlotTimes(availability, timeZone),
     },
-    slotsCreated: createdSlots.length,
-    slots: createdSlots.map(slot => ({
+    timezone: timeZone,
+    slotsCreated: report.created,
+    report,
+    slots: daySlots.map(slot => ({
       id: slot.id,
-      startTime: formatTimeWithAMPM(slot.startTime), // "10:00 AM"
-      endTime: formatTimeWithAMPM(slot.endTime), // "11:00 AM"
+      ...formatSlotTimes(slot, timeZone),
       status: slot.status,
+      isBooked: slot.isBooked,
     })),
   };
 };
@@ -129,7 +347,11 @@ const getSlotsByDate = async (req: Request) => {
     throw new Error('Coach not found');
   }
 
-  const dateObj = new Date(slotDate as string);
+  await refreshTemplateIfStale(coach.id);
+
+  const timeZone = resolveTimeZone(coach.timezone);
+  const dateObj = toSlotDate(new Date(slotDate as string));
+  const blackouts = await getBlackoutsOnDate(coach.id, dateObj);
 
   // Get availability for this date
   const availability = await prisma.coachAvailability.findUnique({
@@ -174,12 +396,15 @@ const getSlotsByDate = async (req: Request) => {
       experience: coach.experience,
       specialty: coach?.specialty?.title || null,
     },
+    timezone: timeZone,
+    blackouts,
     slots: availability?.timeSlots.map(slot => ({
       id: slot.id,
-      startTime: formatTimeWithAMPM(slot.startTime), // "10:00 AM"
-      endTime: formatTimeWithAMPM(slot.endTime), // "11:00 AM"
+      ...formatSlotTimes(slot, timeZone),
       status: slot.status,
       isBooked: slot.isBooked,
+      ...getSeatInfo(slot),
+      inBlackout: isInBlackout(slot, blackouts),
     })) ?? [],
   };
 };
@@ -213,8 +438,8 @@ const toggleSlotStatus = async (req: Request) => {
     throw new Error("Unauthorized: This slot doesn't belong to you");
   }
 
-  // Check if slot is already booked
-  if (slot.isBooked && slot.status === 'ACTIVE') {
+  // Check if slot is already booked (any seat of a group slot counts)
+  if ((slot.isBooked || slot.bookedSeats > 0) && slot.status === 'ACTIVE') {
     throw new Error('Cannot deactivate a booked slot');
   }
 
@@ -224,15 +449,18 @@ const toggleSlotStatus = async (req: Request) => {
   // Update slot status
   const updatedSlot = await prisma.timeSlot.update({
     where: { id: slotId },
-    data: { status: newStatus },
+    data: {
+      status: newStatus,
+      inactiveReason:
+        newStatus === 'INACTIVE' ? SlotInactiveReason.COACH : null,
+    },
   });
 
   return {
     message: `Slot ${newStatus === 'ACTIVE' ? 'activated' : 'deactivated'} successfully`,
     slot: {
       id: updatedSlot.id,
-      startTime: formatTimeWithAMPM(slot.startTime), // "10:00 AM"
-      endTime: formatTimeWithAMPM(slot.endTime), // "11:00 AM"
+      ...formatSlotTimes(slot, resolveTimeZone(coach.timezone)),
       status: updatedSlot.status,
       isBooked: updatedSlot.isBooked,
     },
@@ -240,7 +468,7 @@ const toggleSlotStatus = async (req: Request) => {
 };
 
 const addNewSlot = async (req: Request) => {
-  const { slotDate, startTime, endTime } = req.body;
+  const { slotDate, startTime, endTime, capacity = 1, seatPrice } = req.body;
   const coachMail = req.user?.email;
 
   // Find coach
@@ -252,22 +480,48 @@ const addNewSlot = async (req: Request) => {
     throw new Error('Coach not found');
   }
 
-  // Parse the slot date and times
-  const slotDateObj = new Date(slotDate);
-  const [startHour, startMinute] = startTime.split(':').map(Number);
-  const [endHour, endMinute] = endTime.split(':').map(Number);
+  const slotSettings = getSlotSettings(coach);
+  const timeZone = slotSettings.timezone;
 
-  const startDateTime = new Date(slotDateObj);
-  startDateTime.setHours(startHour, startMinute, 0, 0);
+  // Parse the slot date and times (end defaults to one session length)
+  const slotDateObj = toSlotDate(new Date(slotDate));
+  const startDateTime = atTimeOfDay(slotDateObj, startTime, timeZone);
 
-  const endDateTime = new Date(slotDateObj);
-  endDateTime.setHours(endHour, endMinute, 0, 0);
+  const endDateTime = endTime
+    ? atTimeOfDay(slotDateObj, endTime, timeZone)
+    : new Date(startDateTime.getTime() + slotSettings.sessionLength * 60000);
 
   // Validate: end time must be after start time
   if (endDateTime <= startDateTime) {
     throw new Error('End time must be after start time');
   }
 
+  assertValidCapacity(capacity, seatPrice);
+
+  // Validate: slot must not fall into one of the coach's breaks
+  const blockingBreak = slotSettings.breaks.find(window =>
+    isOverlapping(
+      { startTime: startDateTime, endTime: endDateTime },
+      {
+        startTime: atTimeOfDay(slotDateObj, window.startTime, timeZone),
+        endTime: atTimeOfDay(slotDateObj, window.endTime, timeZone),
+      },
+    ),
+  );
+  if (blockingBreak) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Slot overlaps your break ${blockingBreak.startTime}-${blockingBreak.endTime}`,
+    );
+  }
+
+  // Existing slots are padded with the coach's buffer time
+  const bufferMs = slotSettings.bufferMinutes * 60000;
+  const withBuffer = (slot: { startTime: Date; endTime: Date }) => ({
+    startTime: new Date(slot.startTime.getTime() - bufferMs),
+    endTime: new Date(slot.endTime.getTime() + bufferMs),
+  });
+
   // Check if CoachAvailability exists for this date
   let availability = await prisma.coachAvailability.findUnique({
     where: {
@@ -281,6 +535,17 @@ const addNewSlot = async (req: Request) => {
     },
   });
 
+  // A hand-added slot turns a template day into a manual one
+  if (availability?.source === AvailabilitySource.TEMPLATE) {
+    availability = await prisma.coachAvailability.update({
+      where: { id: availability.id },
+      data: { source: AvailabilitySource.MANUAL },
+      include: {
+        timeSlots: true,
+      },
+    });
+  }
+
   // If no availability exists, create it
   if (!availability) {
     availability = await prisma.coachAvailability.create({
@@ -296,38 +561,21 @@ const addNewSlot = async (req: Request) => {
     });
   }
 
-  // Check for conflicting slots (overlapping time)
-  const hasConflict = availability.timeSlots.some(existingSlot => {
-    const existingStart = existingSlot.startTime;
-    const existingEnd = existingSlot.endTime;
-
-    // Check if new slot overlaps with existing slot
-    return (
-      (startDateTime >= existingStart && startDateTime < existingEnd) || // New start is within existing
-      (endDateTime > existingStart && endDateTime <= existingEnd) || // New end is within existing
-      (startDateTime <= existingStart && endDateTime >= existingEnd) // New slot completely covers existing
-    );
-  });
-
-  if (hasConflict) {
-    // Find the conflicting slot for better error message
-    const conflictingSlot = availability.timeSlots.find(slot => {
-      const existingStart = slot.startTime;
-      const existingEnd = slot.endTime;
-      return (
-        (startDateTime >= existingStart && startDateTime < existingEnd) ||
-        (endDateTime > existingStart && endDateTime <= existingEnd) ||
-        (startDateTime <= existingStart && endDateTime >= existingEnd)
-      );
-    });
+  // Check for conflicting slots (overlapping time, including buffer)
+  const conflictingSlot = availability.timeSlots.find(existingSlot =>
+    isOverlapping(
+      { startTime: startDateTime, endTime: endDateTime },
+      withBuffer(existingSlot),
+    ),
+  );
 
+  if (conflictingSlot) {
     return {
       success: false,
       message: 'Time slot already exists or conflicts with an existing slot',
       conflictingSlot: conflictingSlot
         ? {
-            startTime: formatTimeWithAMPM(conflictingSlot.startTime),
-            endTime: formatTimeWithAMPM(conflictingSlot.endTime),
+            ...formatSlotTimes(conflictingSlot, timeZone),
             status: conflictingSlot.status,
           }
         : null,
@@ -341,6 +589,8 @@ const addNewSlot = async (req: Request) => {
       startTime: startDateTime,
       endTime: endDateTime,
       isBooked: false,
+      capacity,
+      seatPrice,
       status: 'ACTIVE',
     },
   });
@@ -350,12 +600,1046 @@ const addNewSlot = async (req: Request) => {
     message: 'New slot created successfully',
     slot: {
       id: newSlot.id,
-      startTime: formatTimeWithAMPM(newSlot.startTime),
-      endTime: formatTimeWithAMPM(newSlot.endTime),
+      ...formatSlotTimes(newSlot, timeZone),
       status: newSlot.status,
       isBooked: newSlot.isBooked,
+      ...getSeatInfo(newSlot),
+    },
+  };
+};
+
+// Group sessions: capacity between 1 and MAX_SLOT_CAPACITY, optional per-seat price
+const assertValidCapacity = (capacity: unknown, seatPrice?: unknown) => {
+  if (
+    !Number.isInteger(capacity) ||
+    (capacity as number) < 1 ||
+    (capacity as number) > MAX_SLOT_CAPACITY
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Capacity must be a whole number between 1 and ${MAX_SLOT_CAPACITY}`,
+    );
+  }
+  if (
+    seatPrice !== undefined &&
+    seatPrice !== null &&
+    (typeof seatPrice !== 'number' || seatPrice < 0)
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Seat price must be a positive number',
+    );
+  }
+};
+
+const getOwnSlot = async (coachId: string, slotId: string) => {
+  const slot = await prisma.timeSlot.findUnique({
+    where: { id: slotId },
+    include: { availability: true },
+  });
+  if (!slot || slot.availability.coachId !== coachId) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Slot not found');
+  }
+  return slot;
+};
+
+const updateSlotCapacity = async (
+  coachMail: string,
+  slotId: string,
+  payload: { capacity: number; seatPrice?: number | null },
+) => {
+  const coach = await getCoachByMail(coachMail);
+  const slot = await getOwnSlot(coach.id, slotId);
+  assertValidCapacity(payload.capacity, payload.seatPrice);
+
+  const bookedSeats = await prisma.booking.count({
+    where: { timeSlotId: slot.id, ...seatHoldingBookingWhere() },
+  });
+  if (payload.capacity < bookedSeats) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `${bookedSeats} seats are already booked, capacity cannot be lower`,
+    );
+  }
+
+  const updated = await prisma.timeSlot.update({
+    where: { id: slot.id },
+    data: {
+      capacity: payload.capacity,
+      seatPrice: payload.seatPrice,
+      bookedSeats,
+      isBooked: bookedSeats >= payload.capacity,
+    },
+  });
+
+  return {
+    id: updated.id,
+    ...formatSlotTimes(updated, resolveTimeZone(coach.timezone)),
+    status: updated.status,
+    isBooked: updated.isBooked,
+    ...getSeatInfo(updated),
+  };
+};
+
+// Participants of one slot, for the coach
+const getSlotRoster = async (coachMail: string, slotId: string) => {
+  const coach = await getCoachByMail(coachMail);
+  const slot = await getOwnSlot(coach.id, slotId);
+
+  const participants = await prisma.booking.findMany({
+    where: { timeSlotId: slot.id, ...seatHoldingBookingWhere() },
+    select: {
+      id: true,
+      status: true,
+      notes: true,
+      createdAt: true,
+      athlete: {
+        select: {
+          id: true,
+          fullName: true,
+          email: true,
+          phoneNumber: true,
+          profile: true,
+          noShowCount: true,
+        },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return {
+    slot: {
+      id: slot.id,
+      date: slot.availability.slotDate.toISOString().split('T')[0],
+      ...formatSlotTimes(slot, resolveTimeZone(coach.timezone)),
+      status: slot.status,
+      ...getSeatInfo({ ...slot, bookedSeats: participants.length }),
+    },
+    participants,
+  };
+};
+
+type TWeeklyWindow = { dayOfWeek: number; startTime: string; endTime: string };
+type TTimeWindow = { startTime: string; endTime: string };
+
+const toMinutes = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+};
+
+// Windows must be valid and must not overlap within the same day
+const assertValidWindows = (windows: TTimeWindow[], label: string) => {
+  const sorted = [...windows].sort(
+    (a, b) => toMinutes(a.startTime) - toMinutes(b.startTime),
+  );
+
+  sorted.forEach((window, index) => {
+    if (toMinutes(window.endTime) <= toMinutes(window.startTime)) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `${label}: end time must be after start time`,
+      );
+    }
+    const previous = sorted[index - 1];
+    if (previous && toMinutes(window.startTime) < toMinutes(previous.endTime)) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `${label}: windows ${previous.startTime}-${previous.endTime} and ${window.startTime}-${window.endTime} overlap`,
+      );
+    }
+  });
+};
+
+const getCoachByMail = async (coachMail: string) => {
+  const coach = await prisma.coach.findUnique({
+    where: { email: coachMail },
+  });
+
+  if (!coach) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Coach not found');
+  }
+
+  return coach;
+};
+
+// Creates/refreshes TEMPLATE days from today up to the template horizon.
+// MANUAL days are never touched; changed days go through regenerateDaySlots
+// so booked slots survive and show up as conflicts.
+const materializeTemplate = async (coachId: string) => {
+  const report = {
+    created: [] as string[],
+    refreshed: [] as string[],
+    removed: [] as string[],
+    // Active bookings the new template no longer covers, per date
+    conflicts: [] as {
+      date: string;
+      bookings: ReturnType<typeof collectConflicts>;
+    }[],
+  };
+
+  const template = await prisma.availabilityTemplate.findUnique({
+    where: { coachId },
+    include: {
+      coach: {
+        select: {
+          sessionLength: true,
+          bufferMinutes: true,
+          breaks: true,
+          timezone: true,
+        },
+      },
+    },
+  });
+
+  if (!template || !template.isActive) {
+    return report;
+  }
+
+  const slotSettings = getSlotSettings(template.coach);
+
+  const today = toSlotDate(new Date(), slotSettings.timezone);
+  const effectiveFrom = toSlotDate(template.effectiveFrom);
+  const from = effectiveFrom > today ? effectiveFrom : today;
+
+  const horizon = addDays(today, template.weeksAhead * 7);
+  const effectiveEnd = template.effectiveTo
+    ? addDays(toSlotDate(template.effectiveTo), 1)
+    : null;
+  const to = effectiveEnd && effectiveEnd < horizon ? effectiveEnd : horizon;
+
+  const [exceptions, existingDays] = await Promise.all([
+    prisma.availabilityException.findMany({
+      where: { coachId, date: { gte: from, lt: to } },
+    }),
+    prisma.coachAvailability.findMany({
+      where: { coachId, slotDate: { gte: from, lt: to } },
+      include: { timeSlots: true },
+    }),
+  ]);
+
+  const exceptionByDate = new Map(
+    exceptions.map(exception => [exception.date.toISOString(), exception]),
+  );
+  const dayByDate = new Map(
+    existingDays.map(day => [day.slotDate.toISOString(), day]),
+  );
+
+  for (let date = from; date < to; date = addDays(date, 1)) {
+    const key = date.toISOString();
+    const dateLabel = key.split('T')[0];
+    const exception = exceptionByDate.get(key);
+    const windows: TTimeWindow[] = exception
+      ? exception.windows
+      : template.windows.filter(
+          window => window.dayOfWeek === date.getUTCDay(),
+        );
+
+    const desiredSlots = buildTimeSlots(date, windows, slotSettings);
+    const existing = dayByDate.get(key);
+
+    if (existing) {
+      // Coach edited this date by hand; the manual schedule wins
+      if (existing.source === AvailabilitySource.MANUAL) continue;
+
+      const unchanged =
+        existing.timeSlots.length === desiredSlots.length &&
+        desiredSlots.every(slot =>
+          existing.timeSlots.some(current => isSameTime(current, slot)),
+        );
+      if (unchanged) continue;
+
+      const dayReport = await regenerateDaySlots(
+        existing.id,
+        desiredSlots,
+        slotSettings.timezone,
+      );
+      if (dayReport.conflicts.length) {
+        report.conflicts.push({
+          date: dateLabel,
+          bookings: dayReport.conflicts,
+        });
+      }
+
+      const remaining = await prisma.timeSlot.count({
+        where: { availabilityId: existing.id },
+      });
+      if (!remaining) {
+        await prisma.coachAvailability.delete({ where: { id: existing.id } });
+        report.removed.push(dateLabel);
+        continue;
+      }
+
+      await prisma.coachAvailability.update({
+        where: { id: existing.id },
+        data: desiredSlots.length
+          ? {
+              startTime: desiredSlots[0].startTime,
+              endTime: desiredSlots[desiredSlots.length - 1].endTime,
+              isActive: true,
+            }
+          : { isActive: dayReport.conflicts.length > 0 },
+      });
+      report.refreshed.push(dateLabel);
+      continue;
+    }
+
+    if (!desiredSlots.length) continue;
+
+    const availability = await prisma.coachAvailability.create({
+      data: {
+        coachId,
+        slotDate: date,
+        startTime: desiredSlots[0].startTime,
+        endTime: desiredSlots[desiredSlots.length - 1].endTime,
+        isActive: true,
+        source: AvailabilitySource.TEMPLATE,
+      },
+    });
+
+    await prisma.timeSlot.createMany({
+      data: desiredSlots.map(slot => ({
+        availabilityId: availability.id,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        isBooked: false,
+        status: SlotStatus.ACTIVE,
+      })),
+    });
+
+    report.created.push(dateLabel);
+  }
+
+  await prisma.availabilityTemplate.update({
+    where: { id: template.id },
+    data: { lastMaterializedAt: new Date() },
+  });
+
+  return report;
+};
+
+// Keeps the rolling horizon moving forward; runs at most once a day per coach
+const refreshTemplateIfStale = async (coachId: string) => {
+  const template = await prisma.availabilityTemplate.findUnique({
+    where: { coachId },
+    select: { isActive: true, lastMaterializedAt: true },
+  });
+  if (!template?.isActive) return;
+
+  const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  if (template.lastMaterializedAt && template.lastMaterializedAt > oneDayAgo) {
+    return;
+  }
+
+  await materializeTemplate(coachId);
+};
+
+const upsertTemplate = async (
+  coachMail: string,
+  payload: {
+    windows: TWeeklyWindow[];
+    effectiveFrom: string;
+    effectiveTo?: string | null;
+    weeksAhead?: number;
+  },
+) => {
+  const coach = await getCoachByMail(coachMail);
+
+  for (let day = 0; day < 7; day++) {
+    assertValidWindows(
+      payload.windows.filter(window => window.dayOfWeek === day),
+      `Day ${day}`,
+    );
+  }
+
+  const effectiveFrom = new Date(payload.effectiveFrom);
+  const effectiveTo = payload.effectiveTo
+    ? new Date(payload.effectiveTo)
+    : null;
+  if (effectiveTo && effectiveTo < effectiveFrom) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'effectiveTo must be on or after effectiveFrom',
+    );
+  }
+
+  const data = {
+    effectiveFrom,
+    effectiveTo,
+    weeksAhead: payload.weeksAhead ?? 4,
+    isActive: true,
+  };
+
+  const template = await prisma.availabilityTemplate.upsert({
+    where: { coachId: coach.id },
+    update: { ...data, windows: { set: payload.windows } },
+    create: { ...data, coachId: coach.id, windows: payload.windows },
+  });
+
+  const report = await materializeTemplate(coach.id);
+
+  return { template, report };
+};
+
+const getMyTemplate = async (coachMail: string) => {
+  const coach = await getCoachByMail(coachMail);
+
+  const [template, exceptions] = await Promise.all([
+    prisma.availabilityTemplate.findUnique({ where: { coachId: coach.id } }),
+    prisma.availabilityException.findMany({
+      where: {
+        coachId: coach.id,
+        date: { gte: toSlotDate(new Date(), resolveTimeZone(coach.timezone)) },
+      },
+      orderBy: { date: 'asc' },
+    }),
+  ]);
+
+  return { template, exceptions };
+};
+
+// Stops rolling the template forward; already materialized days stay
+const deactivateTemplate = async (coachMail: string) => {
+  const coach = await getCoachByMail(coachMail);
+
+  const template = await prisma.availabilityTemplate.findUnique({
+    where: { coachId: coach.id },
+  });
+  if (!template) {
+    throw new AppError(httpStatus.NOT_FOUND, 'No availability template found');
+  }
+
+  return prisma.availabilityTemplate.update({
+    where: { id: template.id },
+    data: { isActive: false },
+  });
+};
+
+const materializeMyTemplate = async (coachMail: string) => {
+  const coach = await getCoachByMail(coachMail);
+  return materializeTemplate(coach.id);
+};
+
+const upsertException = async (
+  coachMail: string,
+  payload: { date: string; windows: TTimeWindow[]; reason?: string },
+) => {
+  const coach = await getCoachByMail(coachMail);
+  assertValidWindows(payload.windows, payload.date);
+
+  const date = toSlotDate(new Date(payload.date));
+
+  const exception = await prisma.availabilityException.upsert({
+    where: { coachId_date: { coachId: coach.id, date } },
+    update: { windows: { set: payload.windows }, reason: payload.reason },
+    create: {
+      coachId: coach.id,
+      date,
+      windows: payload.windows,
+      reason: payload.reason,
     },
+  });
+
+  const report = await materializeTemplate(coach.id);
+
+  return { exception, report };
+};
+
+const deleteException = async (coachMail: string, exceptionId: string) => {
+  const coach = await getCoachByMail(coachMail);
+
+  const exception = await prisma.availabilityException.findUnique({
+    where: { id: exceptionId },
+  });
+  if (!exception || exception.coachId !== coach.id) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Exception not found');
+  }
+
+  await prisma.availabilityException.delete({ where: { id: exceptionId } });
+
+  // The date goes back to following the template
+  const report = await materializeTemplate(coach.id);
+
+  return { exception, report };
+};
+
+// Blackouts touching the given calendar date (UTC midnight key)
+const getBlackoutsOnDate = (coachId: string, slotDate: Date) =>
+  prisma.coachBlackout.findMany({
+    where: {
+      coachId,
+      startDate: { lte: slotDate },
+      endDate: { gte: slotDate },
+    },
+  });
+
+// Bookings that still take place inside the blackout
+const getBookingsInBlackout = (blackout: CoachBlackout) =>
+  prisma.booking.findMany({
+    where: {
+      coachId: blackout.coachId,
+      status: { in: ACTIVE_BOOKING_STATUSES },
+      bookingDate: { gte: blackout.startAt, lt: blackout.endAt },
+    },
+    include: {
+      athlete: {
+        select: {
+          id: true,
+          fullName: true,
+          timezone: true,
+          user: { select: { id: true } },
+        },
+      },
+      timeSlot: { select: { startTime: true, endTime: true } },
+    },
+    orderBy: { bookingDate: 'asc' },
+  });
+
+// Ask every athlete booked inside the blackout to move their session
+const notifyBlackoutAthletes = async (
+  blackout: CoachBlackout,
+  coach: { fullName: string; email: string },
+  message?: string,
+) => {
+  const coachUser = await prisma.user.findUnique({
+    where: { email: coach.email },
+    select: { id: true },
+  });
+  const bookings = await getBookingsInBlackout(blackout);
+
+  for (const booking of bookings) {
+    const timeZone = resolveTimeZone(booking.athlete.timezone);
+    await createNotification({
+      receiverId: booking.athlete.user.id,
+      senderId: coachUser?.id ?? null,
+      title: 'Coach Unavailable',
+      body:
+        message ??
+        `${coach.fullName} is unavailable on ${describeSessionTime(booking.bookingDate, timeZone)}. Please reschedule or cancel your session for a full refund.`,
+    });
+  }
+
+  return bookings.map(booking => booking.id);
+};
+
+const createBlackout = async (
+  coachMail: string,
+  payload: {
+    startDate: string;
+    endDate: string;
+    reason?: BlackoutReason;
+    note?: string;
+    notifyAthletes?: boolean;
+  },
+) => {
+  const coach = await getCoachByMail(coachMail);
+  const timeZone = resolveTimeZone(coach.timezone);
+
+  const startDate = toSlotDate(new Date(payload.startDate));
+  const endDate = toSlotDate(new Date(payload.endDate));
+  if (endDate < startDate) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'End date must be on or after the start date',
+    );
+  }
+
+  const startAt = atTimeOfDay(startDate, '00:00', timeZone);
+  const endAt = atTimeOfDay(addDays(endDate, 1), '00:00', timeZone);
+  if (endAt <= new Date()) {
+    throw new AppError(httpStatus.BAD_REQUEST, 'Blackout is in the past');
+  }
+
+  const overlapping = await prisma.coachBlackout.findFirst({
+    where: {
+      coachId: coach.id,
+      startDate: { lte: endDate },
+      endDate: { gte: startDate },
+    },
+  });
+  if (overlapping) {
+    throw new AppError(
+      httpStatus.CONFLICT,
+      'Blackout overlaps an existing one, remove or adjust it first',
+    );
+  }
+
+  const blackout = await prisma.coachBlackout.create({
+    data: {
+      coachId: coach.id,
+      startDate,
+      endDate,
+      startAt,
+      endAt,
+      reason: payload.reason,
+      note: payload.note,
+    },
+  });
+
+  const affectedBookings = await getBookingsInBlackout(blackout);
+  const notifiedBookingIds =
+    payload.notifyAthletes && affectedBookings.length
+      ? await notifyBlackoutAthletes(blackout, coach)
+      : [];
+
+  return { blackout, affectedBookings, notifiedBookingIds };
+};
+
+const getMyBlackouts = async (coachMail: string) => {
+  const coach = await getCoachByMail(coachMail);
+
+  const blackouts = await prisma.coachBlackout.findMany({
+    where: { coachId: coach.id, endAt: { gt: new Date() } },
+    orderBy: { startAt: 'asc' },
+  });
+
+  return Promise.all(
+    blackouts.map(async blackout => ({
+      ...blackout,
+      affectedBookings: await getBookingsInBlackout(blackout),
+    })),
+  );
+};
+
+const deleteBlackout = async (coachMail: string, blackoutId: string) => {
+  const coach = await getCoachByMail(coachMail);
+
+  const blackout = await prisma.coachBlackout.findUnique({
+    where: { id: blackoutId },
+  });
+  if (!blackout || blackout.coachId !== coach.id) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Blackout not found');
+  }
+
+  // Slots were only hidden, so they become bookable again
+  return prisma.coachBlackout.delete({ where: { id: blackoutId } });
+};
+
+// Bulk follow-up for bookings caught in a blackout: ask the athletes to
+// reschedule, or cancel them as the coach (which refunds in full)
+const handleBlackoutBookings = async (
+  coachMail: string,
+  blackoutId: string,
+  payload: { action: 'NOTIFY' | 'CANCEL'; message?: string },
+) => {
+  const coach = await getCoachByMail(coachMail);
+
+  const blackout = await prisma.coachBlackout.findUnique({
+    where: { id: blackoutId },
+  });
+  if (!blackout || blackout.coachId !== coach.id) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Blackout not found');
+  }
+
+  if (payload.action === 'NOTIFY') {
+    const notified = await notifyBlackoutAthletes(
+      blackout,
+      coach,
+      payload.message,
+    );
+    return { action: payload.action, notified, cancelled: [], failed: [] };
+  }
+
+  const bookings = await getBookingsInBlackout(blackout);
+  const reason =
+    payload.message ??
+    `Coach unavailable from ${formatDateInZone(blackout.startAt, resolveTimeZone(coach.timezone))}`;
+
+  const cancelled: string[] = [];
+  const failed: { bookingId: string; message: string }[] = [];
+  for (const booking of bookings) {
+    try {
+      await BookingServices.cancelBooking(
+        coachMail,
+        UserRoleEnum.COACH,
+        booking.id,
+        reason,
+      );
+      cancelled.push(booking.id);
+    } catch (error) {
+      failed.push({ bookingId: booking.id, message: (error as Error).message });
+    }
+  }
+
+  return { action: payload.action, notified: [], cancelled, failed };
+};
+
+const getSlotSettingsOfCoach = async (coachMail: string) => {
+  const coach = await getCoachByMail(coachMail);
+  return getSlotSettings(coach);
+};
+
+const updateSlotSettings = async (
+  coachMail: string,
+  payload: Partial<TSlotSettings>,
+) => {
+  const coach = await getCoachByMail(coachMail);
+
+  if (payload.breaks) {
+    assertValidWindows(payload.breaks, 'Breaks');
+  }
+
+  if (payload.timezone && !isValidTimeZone(payload.timezone)) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Unknown timezone "${payload.timezone}"`,
+    );
+  }
+
+  const updated = await prisma.coach.update({
+    where: { id: coach.id },
+    data: {
+      sessionLength: payload.sessionLength,
+      bufferMinutes: payload.bufferMinutes,
+      timezone: payload.timezone,
+      ...(payload.breaks && { breaks: { set: payload.breaks } }),
+    },
+  });
+
+  // Future template days pick up the new settings; booked days are reported
+  const report = await materializeTemplate(coach.id);
+
+  return { settings: getSlotSettings(updated), report };
+};
+
+// ---------------------------------------------------------------------------
+// Imported calendars: busy times from the coach's own calendar block slots
+// ---------------------------------------------------------------------------
+
+type TExternalCalendarSource = {
+  source: ExternalCalendarSource;
+  url: string | null;
+  icsData: string | null;
+};
+
+const assertIcsCalendar = (ics: string) => {
+  if (!ics.includes('BEGIN:VCALENDAR')) {
+    throw new AppError(httpStatus.BAD_REQUEST, 'Not a valid ICS calendar');
+  }
+};
+
+// webcal:// is how calendar apps share their subscription links. Only
+// public addresses are fetched, redirects included.
+const fetchIcs = async (url: string) => {
+  const target = new URL(url.replace(/^webcal:\/\//i, 'https://'));
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw new AppError(httpStatus.BAD_REQUEST, 'Unsupported calendar URL');
+  }
+  assertPublicHost(target.hostname);
+
+  const { data } = await axios.get<string>(target.toString(), {
+    responseType: 'text',
+    timeout: 15000,
+    maxContentLength: MAX_ICS_FILE_BYTES,
+    maxRedirects: 3,
+    lookup: publicOnlyLookup,
+    beforeRedirect: options => assertPublicHost(options.hostname),
+  });
+  assertIcsCalendar(data);
+  return data;
+};
+
+// Busy times from now until the horizon, read from the URL or the upload
+const readBusyBlocks = async (
+  calendar: TExternalCalendarSource,
+  timeZone: string,
+) => {
+  const ics =
+    calendar.source === ExternalCalendarSource.URL
+      ? await fetchIcs(calendar.url as string)
+      : (calendar.icsData ?? '');
+
+  const now = new Date();
+  const horizon = new Date(
+    now.getTime() + EXTERNAL_CALENDAR_HORIZON_DAYS * 24 * 60 * 60 * 1000,
+  );
+  return parseBusyBlocks(ics, now, horizon, timeZone);
+};
+
+// Free slots inside a busy time are turned off, and back on once the busy
+// time is gone. Slots with bookings are never touched: they are kept on the
+// calendar as conflicts and the coach is told about each one once.
+const applyExternalBusyTimes = async (coachId: string) => {
+  const coach = await prisma.coach.findUnique({
+    where: { id: coachId },
+    include: { user: { select: { id: true } } },
+  });
+  if (!coach) throw new AppError(httpStatus.NOT_FOUND, 'Coach not found');
+
+  const calendars = await prisma.externalCalendar.findMany({
+    where: { coachId },
+    orderBy: { createdAt: 'asc' },
+  });
+  const slots = await prisma.timeSlot.findMany({
+    where: {
+      availability: { is: { coachId } },
+      startTime: { gt: new Date() },
+      OR: [
+        { status: SlotStatus.ACTIVE },
+        { inactiveReason: SlotInactiveReason.EXTERNAL_CALENDAR },
+      ],
+    },
+    include: {
+      bookings: { where: seatHoldingBookingWhere(), select: { id: true } },
+    },
+  });
+
+  const findBusyTime = (slot: TDesiredSlot) => {
+    for (const calendar of calendars) {
+      const block = calendar.busyBlocks.find(busy =>
+        isOverlapping({ startTime: busy.startAt, endTime: busy.endAt }, slot),
+      );
+      if (block) return { calendar, block };
+    }
+    return null;
   };
+
+  const toDeactivate: string[] = [];
+  const toReactivate: string[] = [];
+  const conflicts = new Map<string, BusyConflict[]>(
+    calendars.map(calendar => [calendar.id, []]),
+  );
+  for (const slot of slots) {
+    const busy = findBusyTime(slot);
+    if (slot.status === SlotStatus.INACTIVE) {
+      if (!busy) toReactivate.push(slot.id);
+    } else if (busy && (slot.bookedSeats > 0 || slot.bookings.length)) {
+      conflicts.get(busy.calendar.id)?.push({
+        slotId: slot.id,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        bookingIds: slot.bookings.map(booking => booking.id),
+        summary: busy.block.summary,
+      });
+    } else if (busy) {
+      toDeactivate.push(slot.id);
+    }
+  }
+
+  // A seat may have been taken since the slots were read
+  const { count: deactivated } = await prisma.timeSlot.updateMany({
+    where: {
+      id: { in: toDeactivate },
+      status: SlotStatus.ACTIVE,
+      bookedSeats: 0,
+    },
+    data: {
+      status: SlotStatus.INACTIVE,
+      inactiveReason: SlotInactiveReason.EXTERNAL_CALENDAR,
+    },
+  });
+  const { count: reactivated } = await prisma.timeSlot.updateMany({
+    where: {
+      id: { in: toReactivate },
+      inactiveReason: SlotInactiveReason.EXTERNAL_CALENDAR,
+    },
+    data: { status: SlotStatus.ACTIVE, inactiveReason: null },
+  });
+
+  const timeZone = resolveTimeZone(coach.timezone);
+  for (const calendar of calendars) {
+    const calendarConflicts = conflicts.get(calendar.id) ?? [];
+    await prisma.externalCalendar.update({
+      where: { id: calendar.id },
+      data: { conflicts: calendarConflicts },
+    });
+
+    const known = new Set(calendar.conflicts.map(conflict => conflict.slotId));
+    const newConflicts = calendarConflicts.filter(
+      conflict => !known.has(conflict.slotId),
+    );
+    if (newConflicts.length) {
+      await createNotification({
+        receiverId: coach.user.id,
+        senderId: null,
+        title: 'Calendar Conflict',
+        body: `${newConflicts.length} booked session(s) overlap busy times in ${calendar.name ?? 'your imported calendar'}, starting ${describeSessionTime(newConflicts[0].startTime, timeZone)}. Reschedule or cancel them if you cannot attend.`,
+      });
+    }
+  }
+
+  return {
+    deactivated,
+    reactivated,
+    conflicts: [...conflicts.values()].flat(),
+  };
+};
+
+// Reads the calendar again; on failure the last known busy times are kept
+const refreshExternalCalendar = async (
+  calendar: TExternalCalendarSource & { id: string },
+  timeZone: string,
+) => {
+  try {
+    const busyBlocks = await readBusyBlocks(calendar, timeZone);
+    return await prisma.externalCalendar.update({
+      where: { id: calendar.id },
+      data: { busyBlocks, lastSyncedAt: new Date(), lastSyncError: null },
+    });
+  } catch (error) {
+    // The coach only sees our own messages, never what the fetch ran into
+    console.log('❌ Calendar Sync Error:', error);
+    return prisma.externalCalendar.update({
+      where: { id: calendar.id },
+      data: {
+        lastSyncedAt: new Date(),
+        lastSyncError:
+          error instanceof AppError
+            ? error.message
+            : 'Could not read the calendar at this address',
+      },
+    });
+  }
+};
+
+const getOwnExternalCalendar = async (coachId: string, calendarId: string) => {
+  const calendar = await prisma.externalCalendar.findUnique({
+    where: { id: calendarId },
+  });
+  if (!calendar || calendar.coachId !== coachId) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Calendar not found');
+  }
+  return calendar;
+};
+
+// The URL and uploaded file stay server-side
+const toCalendarResponse = (calendar: ExternalCalendar) => ({
+  ...calendar,
+  url: undefined,
+  icsData: undefined,
+  hasUrl: !!calendar.url,
+});
+
+const addExternalCalendar = async (
+  coachMail: string,
+  payload: { name?: string; url?: string },
+  file?: Express.Multer.File,
+) => {
+  const coach = await getCoachByMail(coachMail);
+  const timeZone = resolveTimeZone(coach.timezone);
+
+  if (!file === !payload.url) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Provide either an ICS file or an ICS URL',
+    );
+  }
+
+  const existing = await prisma.externalCalendar.count({
+    where: { coachId: coach.id },
+  });
+  if (existing >= MAX_EXTERNAL_CALENDARS) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `You can import at most ${MAX_EXTERNAL_CALENDARS} calendars`,
+    );
+  }
+
+  let source: TExternalCalendarSource;
+  if (file) {
+    if (file.size > MAX_ICS_FILE_BYTES) {
+      throw new AppError(httpStatus.BAD_REQUEST, 'ICS file is too large');
+    }
+    const icsData = file.buffer.toString('utf8');
+    assertIcsCalendar(icsData);
+    source = { source: ExternalCalendarSource.UPLOAD, url: null, icsData };
+  } else {
+    source = {
+      source: ExternalCalendarSource.URL,
+      url: payload.url as string,
+      icsData: null,
+    };
+  }
+
+  let busyBlocks: BusyBlock[];
+  try {
+    busyBlocks = await readBusyBlocks(source, timeZone);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Could not read the calendar at this address',
+    );
+  }
+
+  const calendar = await prisma.externalCalendar.create({
+    data: {
+      coachId: coach.id,
+      name: payload.name ?? file?.originalname,
+      ...source,
+      busyBlocks,
+      lastSyncedAt: new Date(),
+    },
+  });
+  const report = await applyExternalBusyTimes(coach.id);
+
+  return { calendar: toCalendarResponse(calendar), report };
+};
+
+const getMyExternalCalendars = async (coachMail: string) => {
+  const coach = await getCoachByMail(coachMail);
+
+  const calendars = await prisma.externalCalendar.findMany({
+    where: { coachId: coach.id },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return calendars.map(toCalendarResponse);
+};
+
+const syncExternalCalendar = async (coachMail: string, calendarId: string) => {
+  const coach = await getCoachByMail(coachMail);
+  const calendar = await getOwnExternalCalendar(coach.id, calendarId);
+
+  const synced = await refreshExternalCalendar(
+    calendar,
+    resolveTimeZone(coach.timezone),
+  );
+  const report = await applyExternalBusyTimes(coach.id);
+
+  return { calendar: toCalendarResponse(synced), report };
+};
+
+// Slots the calendar blocked become bookable again
+const deleteExternalCalendar = async (
+  coachMail: string,
+  calendarId: string,
+) => {
+  const coach = await getCoachByMail(coachMail);
+  await getOwnExternalCalendar(coach.id, calendarId);
+
+  await prisma.externalCalendar.delete({ where: { id: calendarId } });
+  const report = await applyExternalBusyTimes(coach.id);
+
+  return { id: calendarId, report };
+};
+
+// Background job: every calendar is read again once it is older than the
+// sync interval, which also covers slots created since the last sync
+const syncDueExternalCalendars = async () => {
+  const dueBefore = new Date(
+    Date.now() - EXTERNAL_CALENDAR_SYNC_MINUTES * 60 * 1000,
+  );
+  const calendars = await prisma.externalCalendar.findMany({
+    where: {
+      OR: [{ lastSyncedAt: null }, { lastSyncedAt: { lte: dueBefore } }],
+    },
+    include: { coach: { select: { timezone: true } } },
+    take: 50,
+  });
+
+  const coachIds = new Set<string>();
+  for (const calendar of calendars) {
+    await refreshExternalCalendar(
+      calendar,
+      resolveTimeZone(calendar.coach.timezone),
+    );
+    coachIds.add(calendar.coachId);
+  }
+  for (const coachId of coachIds) {
+    await applyExternalBusyTimes(coachId);
+  }
+
+  return calendars.length;
 };
 
 export const ScheduleServices = {
@@ -363,4 +1647,25 @@ export const ScheduleServices = {
   getSlotsByDate,
   toggleSlotStatus,
   addNewSlot,
+  upsertTemplate,
+  getMyTemplate,
+  deactivateTemplate,
+  materializeTemplate,
+  materializeMyTemplate,
+  refreshTemplateIfStale,
+  upsertException,
+  deleteException,
+  getSlotSettingsOfCoach,
+  updateSlotSettings,
+  createBlackout,
+  getMyBlackouts,
+  deleteBlackout,
+  handleBlackoutBookings,
+  updateSlotCapacity,
+  getSlotRoster,
+  addExternalCalendar,
+  getMyExternalCalendars,
+  syncExternalCalendar,
+  deleteExternalCalendar,
+  syncDueExternalCalendars,
 };
@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { MAX_SLOT_CAPACITY, SESSION_LENGTHS } from './Schedule.constants';
+
+const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:mm format');
+
+const calendarDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+const timeWindow = z.object({
+  startTime: timeOfDay,
+  endTime: timeOfDay,
+});
+
+const upsertTemplateZodSchema = z.object({
+  body: z.object({
+    windows: z
+      .array(timeWindow.extend({ dayOfWeek: z.number().int().min(0).max(6) }))
+      .min(1, 'At least one weekly window is required'),
+    effectiveFrom: calendarDate,
+    effectiveTo: calendarDate.nullable().optional(),
+    weeksAhead: z.number().int().min(1).max(12).optional(),
+  }),
+});
+
+const upsertExceptionZodSchema = z.object({
+  body: z.object({
+    date: calendarDate,
+    windows: z.array(timeWindow),
+    reason: z.string().optional(),
+  }),
+});
+
+const createBlackoutZodSchema = z.object({
+  body: z.object({
+    startDate: calendarDate,
+    endDate: calendarDate,
+    reason: z.enum(['VACATION', 'INJURY', 'OTHER']).optional(),
+    note: z.string().max(500).optional(),
+    notifyAthletes: z.boolean().optional(),
+  }),
+});
+
+const blackoutBookingsActionZodSchema = z.object({
+  body: z.object({
+    action: z.enum(['NOTIFY', 'CANCEL']),
+    message: z.string().max(500).optional(),
+  }),
+});
+
+const updateSlotCapacityZodSchema = z.object({
+  body: z.object({
+    capacity: z.number().int().min(1).max(MAX_SLOT_CAPACITY),
+    seatPrice: z.number().min(0).nullable().optional(),
+  }),
+});
+
+const updateSlotSettingsZodSchema = z.object({
+  body: z.object({
+    sessionLength: z
+      .number()
+      .int()
+      .refine(value => SESSION_LENGTHS.includes(value), {
+        message: `Session length must be one of ${SESSION_LENGTHS.join(', ')} minutes`,
+      })
+      .optional(),
+    bufferMinutes: z.number().int().min(0).max(120).optional(),
+    breaks: z.array(timeWindow).max(5).optional(),
+    timezone: z.string().optional(),
+  }),
+});
+
+// Sent as multipart form fields; the ICS file, when uploaded, comes as `file`
+const addExternalCalendarZodSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    url: z
+      .string()
+      .regex(
+        /^(https?|webcal):\/\/\S+$/i,
+        'URL must be an http(s) or webcal link',
+      )
+      .optional(),
+  }),
+});
+
+export const ScheduleValidation = {
+  upsertTemplateZodSchema,
+  upsertExceptionZodSchema,
+  updateSlotSettingsZodSchema,
+  createBlackoutZodSchema,
+  blackoutBookingsActionZodSchema,
+  updateSlotCapacityZodSchema,
+  addExternalCalendarZodSchema,
+};
@@ -9,6 +9,31 @@ export const userSelect = {
   createdAt: true,
 };
 
+// Coach fields maintained by the server or by their own endpoints; never taken from a profile update
+export const coachSystemFields = [
+  'stripeCustomerId',
+  'stripeAccountId',
+  'connectStatus',
+  'payoutsEnabled',
+  'coachCancellations',
+  'cancellationPolicy',
+  'sessionLength',
+  'bufferMinutes',
+  'breaks',
+  'isRecommendedPayment',
+  'recommendedTime',
+  'subscriptionId',
+  'subscriptionStart',
+  'subscriptionEnd',
+  'geoLocation',
+  'avgRating',
+  'totalReviews',
+  'searchTerms',
+];
+
+// Athlete fields the server keeps; never taken from a profile update
+export const athleteSystemFields = ['noShowCount'];
+
 export const verifyEmailHTML = (link: string) => {
   return `
   <!DOCTYPE html>
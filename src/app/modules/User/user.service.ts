@@ -1,5 +1,11 @@
 import httpStatus from 'http-status';
-import { BookingStatus, User, UserRoleEnum, UserStatus } from '@prisma/client';
+import {
+  BookingStatus,
+  SessionMode,
+  User,
+  UserRoleEnum,
+  UserStatus,
+} from '@prisma/client';
 import QueryBuilder from '../../builder/QueryBuilder';
 import { prisma } from '../../utils/prisma';
 import { Request } from 'express';
@@ -7,6 +13,10 @@ import AppError from '../../errors/AppError';
 import { uploadToDigitalOceanAWS } from '../../utils/uploadToDigitalOceanAWS';
 import { calculatePagination, IOptions } from '../../utils/calculatePagination';
 import { uploadToCloudinary } from '../../utils/uploadToCloudinary';
+import { athleteSystemFields, coachSystemFields } from './user.constant';
+import { COACH_SEARCH_FIELDS, toGeoPoint } from '../Coach/Coach.constant';
+import { CoachServices } from '../Coach/Coach.service';
+import { isValidTimeZone } from '../../utils/timezone';
 
 interface UserWithOptionalPassword extends Omit<User, 'password'> {
   password?: string;
@@ -194,6 +204,7 @@ const getMyProfileFromDB = async (id: string) => {
         certification: true,
         address: true,
         price: true,
+        sessionModes: true,
         age: true,
         gender: true,
         specialty: {
@@ -215,6 +226,7 @@ const getMyProfileFromDB = async (id: string) => {
             id: true,
             rating: true,
             comment: true,
+            reply: true,
             createdAt: true,
             athlete: {
               select: {
@@ -241,6 +253,8 @@ const getMyProfileFromDB = async (id: string) => {
         phoneNumber: true,
         category: true,
         address: true,
+        timezone: true,
+        noShowCount: true,
       },
     });
   }
@@ -331,6 +345,7 @@ const getUserDetailsFromDB = async (id: string) => {
             id: true,
             rating: true,
             comment: true,
+            reply: true,
             createdAt: true,
           },
         },
@@ -530,6 +545,10 @@ const hardDeleteUserIntoDB = async (id: string, adminId: string) => {
   // );
 };
 
+const sessionModes: string[] = Object.values(SessionMode);
+const isSessionMode = (mode: unknown): mode is SessionMode =>
+  typeof mode === 'string' && sessionModes.includes(mode);
+
 const updateMyProfile = async (
   userId: string,
   role: UserRoleEnum,
@@ -559,6 +578,25 @@ const updateMyProfile = async (
     certificationUrl = uploadedCert.Location;
   }
 
+  if (payload?.timezone !== undefined && !isValidTimeZone(payload.timezone)) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Invalid timezone, use an IANA name like "America/New_York"',
+    );
+  }
+
+  if (
+    payload?.sessionModes !== undefined &&
+    (!Array.isArray(payload.sessionModes) ||
+      !payload.sessionModes.length ||
+      !payload.sessionModes.every(isSessionMode))
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'sessionModes must list IN_PERSON, ONLINE or both',
+    );
+  }
+
   const updateData: any = { ...payload };
   if (profileUrl) updateData.profile = profileUrl;
   if (certificationUrl) updateData.certification = certificationUrl;
@@ -579,6 +617,8 @@ const updateMyProfile = async (
   }
 
   if (role === UserRoleEnum.ATHLETE) {
+    athleteSystemFields.forEach(field => delete updateData[field]);
+
     return await prisma.athlete.update({
       where: { email: user.email },
       data: updateData,
@@ -595,7 +635,36 @@ const updateMyProfile = async (
   }
 
   if (role === UserRoleEnum.COACH) {
-    return await prisma.coach.update({
+    coachSystemFields.forEach(field => delete updateData[field]);
+
+    if (
+      updateData.travelRadiusKm != null &&
+      !(Number(updateData.travelRadiusKm) >= 0)
+    ) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        'travelRadiusKm must be a positive number of kilometers',
+      );
+    }
+
+    // Keep the point used by the radius search in step with the coordinates
+    if (
+      updateData.latitude !== undefined ||
+      updateData.longitude !== undefined
+    ) {
+      const current = await prisma.coach.findUnique({
+        where: { email: user.email },
+        select: { latitude: true, longitude: true },
+      });
+      const latitude = updateData.latitude ?? current?.latitude;
+      const longitude = updateData.longitude ?? current?.longitude;
+      updateData.geoLocation = toGeoPoint(
+        latitude == null ? null : Number(latitude),
+        longitude == null ? null : Number(longitude),
+      );
+    }
+
+    const updated = await prisma.coach.update({
       where: { email: user.email },
       data: updateData,
       select: {
@@ -604,16 +673,25 @@ const updateMyProfile = async (
         email: true,
         profile: true,
         phoneNumber: true,
+        bio: true,
         expertise: true,
         experience: true,
         location: true,
         address: true,
+        timezone: true,
+        sessionModes: true,
+        travelRadiusKm: true,
         certification: true,
         specialtyId: true,
         age: true,
         gender: true,
       },
     });
+
+    if (COACH_SEARCH_FIELDS.some(field => updateData[field] !== undefined)) {
+      await CoachServices.refreshSearchTerms({ id: updated.id });
+    }
+    return updated;
   }
 };
 
@@ -0,0 +1,10 @@
+import { WaitlistStatus } from '@prisma/client';
+
+// How long a freed slot stays reserved for the athlete it was offered to
+export const WAITLIST_OFFER_MINUTES = 30;
+
+// Entries still in the queue
+export const OPEN_WAITLIST_STATUSES: WaitlistStatus[] = [
+  WaitlistStatus.WAITING,
+  WaitlistStatus.OFFERED,
+];
@@ -0,0 +1,47 @@
+import catchAsync from '../../utils/catchAsync';
+import sendResponse from '../../utils/sendResponse';
+import httpStatus from 'http-status';
+import { Request, Response } from 'express';
+import { WaitlistServices } from './Waitlist.service';
+
+const joinWaitlist = catchAsync(async (req: Request, res: Response) => {
+  const result = await WaitlistServices.joinWaitlist(req.user.email, req.body);
+
+  sendResponse(res, {
+    statusCode: httpStatus.CREATED,
+    success: true,
+    message: `You are #${result.position} on the waitlist`,
+    data: result,
+  });
+});
+
+const getMyWaitlist = catchAsync(async (req: Request, res: Response) => {
+  const result = await WaitlistServices.getMyWaitlist(req.user.email);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Waitlist retrieved successfully',
+    data: result,
+  });
+});
+
+const leaveWaitlist = catchAsync(async (req: Request, res: Response) => {
+  const result = await WaitlistServices.leaveWaitlist(
+    req.user.email,
+    req.params.id,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'You left the waitlist',
+    data: result,
+  });
+});
+
+export const WaitlistController = {
+  joinWaitlist,
+  getMyWaitlist,
+  leaveWaitlist,
+};
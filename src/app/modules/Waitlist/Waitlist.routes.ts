@@ -0,0 +1,23 @@
+import express from 'express';
+import { WaitlistController } from './Waitlist.controller';
+import auth from '../../middlewares/auth';
+import validateRequest from '../../middlewares/validateRequest';
+import { WaitlistValidation } from './Waitlist.validation';
+import { UserRoleEnum } from '@prisma/client';
+
+const router = express.Router();
+
+router.post(
+  '/',
+  auth(UserRoleEnum.ATHLETE),
+  validateRequest.body(WaitlistValidation.joinWaitlistZodSchema),
+  WaitlistController.joinWaitlist,
+);
+router.get('/my', auth(UserRoleEnum.ATHLETE), WaitlistController.getMyWaitlist);
+router.delete(
+  '/:id',
+  auth(UserRoleEnum.ATHLETE),
+  WaitlistController.leaveWaitlist,
+);
+
+export const WaitlistRoutes = router;
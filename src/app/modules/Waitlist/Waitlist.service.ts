@@ -0,0 +1,389 @@
+import httpStatus from 'http-status';
+import { Prisma, SlotStatus, WaitlistStatus } from '@prisma/client';
+import { prisma } from '../../utils/prisma';
+import AppError from '../../errors/AppError';
+import { createNotification } from '../../middlewares/notify';
+import {
+  describeSessionTime,
+  seatHoldingBookingWhere,
+} from '../Booking/Booking.constants';
+import { toSlotDate } from '../Schedule/Schedule.constants';
+import { resolveTimeZone, toZonedCalendarDate } from '../../utils/timezone';
+import {
+  OPEN_WAITLIST_STATUSES,
+  WAITLIST_OFFER_MINUTES,
+} from './Waitlist.constants';
+
+// Offers whose athlete can still book the reserved seat
+const liveOfferWhere = (): Prisma.WaitlistEntryWhereInput => ({
+  status: WaitlistStatus.OFFERED,
+  offerExpiresAt: { gt: new Date() },
+});
+
+// Seats of a slot: taken by bookings and unexpired holds, and reserved for
+// live waitlist offers (one seat each). An athlete's own offer is not
+// counted against them, since that seat is theirs to take.
+const getSeatUse = async (
+  client: Prisma.TransactionClient,
+  timeSlotId: string,
+  athleteId?: string,
+) => {
+  const slot = await client.timeSlot.findUnique({
+    where: { id: timeSlotId },
+    select: { capacity: true },
+  });
+  const takenSeats = await client.booking.count({
+    where: { timeSlotId, ...seatHoldingBookingWhere() },
+  });
+  const reservedSeats = await client.waitlistEntry.count({
+    where: {
+      offeredSlotId: timeSlotId,
+      ...liveOfferWhere(),
+      ...(athleteId && { athleteId: { not: athleteId } }),
+    },
+  });
+
+  const capacity = slot?.capacity ?? 0;
+  return {
+    capacity,
+    takenSeats,
+    reservedSeats,
+    openSeats: capacity - takenSeats - reservedSeats,
+  };
+};
+
+const getAthleteByMail = async (athleteMail: string) => {
+  const athlete = await prisma.athlete.findUnique({
+    where: { email: athleteMail },
+  });
+  if (!athlete) throw new AppError(httpStatus.NOT_FOUND, 'Athlete not found');
+  return athlete;
+};
+
+// 1-based place in the queue among athletes still waiting for the same thing
+const getPosition = async (entry: {
+  coachId: string;
+  slotDate: Date;
+  timeSlotId: string | null;
+  createdAt: Date;
+}) =>
+  (await prisma.waitlistEntry.count({
+    where: {
+      coachId: entry.coachId,
+      slotDate: entry.slotDate,
+      timeSlotId: entry.timeSlotId,
+      status: WaitlistStatus.WAITING,
+      createdAt: { lt: entry.createdAt },
+    },
+  })) + 1;
+
+const joinWaitlist = async (
+  athleteMail: string,
+  payload: { timeSlotId?: string; coachId?: string; slotDate?: string },
+) => {
+  const athlete = await getAthleteByMail(athleteMail);
+
+  let coachId: string;
+  let slotDate: Date;
+  let timeSlotId: string | null = null;
+
+  if (payload.timeSlotId) {
+    const timeSlot = await prisma.timeSlot.findUnique({
+      where: { id: payload.timeSlotId },
+      include: { availability: true },
+    });
+    if (!timeSlot || timeSlot.status !== SlotStatus.ACTIVE) {
+      throw new AppError(httpStatus.NOT_FOUND, 'Time slot not found');
+    }
+    if (timeSlot.startTime <= new Date()) {
+      throw new AppError(httpStatus.BAD_REQUEST, 'This time slot has passed');
+    }
+    const { openSeats } = await prisma.$transaction(tx =>
+      getSeatUse(tx, timeSlot.id, athlete.id),
+    );
+    if (openSeats > 0) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        'This time slot is still available, book it directly',
+      );
+    }
+
+    coachId = timeSlot.availability.coachId;
+    slotDate = timeSlot.availability.slotDate;
+    timeSlotId = timeSlot.id;
+  } else {
+    const coach = await prisma.coach.findUnique({
+      where: { id: payload.coachId },
+      select: { id: true, timezone: true },
+    });
+    if (!coach) throw new AppError(httpStatus.NOT_FOUND, 'Coach not found');
+
+    slotDate = toSlotDate(new Date(payload.slotDate as string));
+    const today = toZonedCalendarDate(
+      new Date(),
+      resolveTimeZone(coach.timezone),
+    );
+    if (slotDate < today) {
+      throw new AppError(httpStatus.BAD_REQUEST, 'This date has passed');
+    }
+
+    coachId = coach.id;
+  }
+
+  const existing = await prisma.waitlistEntry.findFirst({
+    where: {
+      athleteId: athlete.id,
+      coachId,
+      slotDate,
+      timeSlotId,
+      status: { in: OPEN_WAITLIST_STATUSES },
+    },
+  });
+  if (existing) {
+    throw new AppError(httpStatus.CONFLICT, 'You are already on this waitlist');
+  }
+
+  const entry = await prisma.waitlistEntry.create({
+    data: { athleteId: athlete.id, coachId, slotDate, timeSlotId },
+  });
+
+  return { ...entry, position: await getPosition(entry) };
+};
+
+// Reserve the free seats of a slot for the first athletes waiting for it
+// (that exact slot, or any slot of the coach that day), one offer per seat,
+// and tell them
+const offerFreedSlot = async (timeSlotId: string) => {
+  const timeSlot = await prisma.timeSlot.findUnique({
+    where: { id: timeSlotId },
+    include: {
+      availability: {
+        include: {
+          coach: {
+            select: {
+              fullName: true,
+              timezone: true,
+              user: { select: { id: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (
+    !timeSlot ||
+    timeSlot.status !== SlotStatus.ACTIVE ||
+    timeSlot.startTime <= new Date()
+  ) {
+    return [];
+  }
+
+  const blackout = await prisma.coachBlackout.findFirst({
+    where: {
+      coachId: timeSlot.availability.coachId,
+      startAt: { lt: timeSlot.endTime },
+      endAt: { gt: timeSlot.startTime },
+    },
+  });
+  if (blackout) return [];
+
+  const offerExpiresAt = new Date(
+    Date.now() + WAITLIST_OFFER_MINUTES * 60 * 1000,
+  );
+  const offers = await prisma.$transaction(async tx => {
+    const { capacity, takenSeats, openSeats } = await getSeatUse(
+      tx,
+      timeSlot.id,
+    );
+    // The same recount a booking writes, so offers and bookings of the slot
+    // made at the same time conflict instead of both taking the last seat
+    await tx.timeSlot.update({
+      where: { id: timeSlot.id },
+      data: { bookedSeats: takenSeats, isBooked: takenSeats >= capacity },
+    });
+    if (openSeats <= 0) return [];
+
+    const waiting = await tx.waitlistEntry.findMany({
+      where: {
+        coachId: timeSlot.availability.coachId,
+        status: WaitlistStatus.WAITING,
+        OR: [
+          { timeSlotId: timeSlot.id },
+          { timeSlotId: null, slotDate: timeSlot.availability.slotDate },
+        ],
+      },
+      include: {
+        athlete: {
+          select: { timezone: true, user: { select: { id: true } } },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: openSeats,
+    });
+
+    const offers = [];
+    for (const entry of waiting) {
+      // Another freed seat may have reached this athlete first
+      const { count } = await tx.waitlistEntry.updateMany({
+        where: { id: entry.id, status: WaitlistStatus.WAITING },
+        data: {
+          status: WaitlistStatus.OFFERED,
+          offeredSlotId: timeSlot.id,
+          offerExpiresAt,
+        },
+      });
+      if (count) offers.push(entry);
+    }
+    return offers;
+  });
+
+  const { coach } = timeSlot.availability;
+  for (const offer of offers) {
+    await createNotification({
+      receiverId: offer.athlete.user.id,
+      senderId: coach.user.id,
+      title: 'A Spot Opened Up',
+      body: `${coach.fullName} has a free spot on ${describeSessionTime(timeSlot.startTime, resolveTimeZone(offer.athlete.timezone, coach.timezone))}. Book it within ${WAITLIST_OFFER_MINUTES} minutes before it goes to the next athlete.`,
+    });
+  }
+
+  return offers.map(offer => ({
+    ...offer,
+    status: WaitlistStatus.OFFERED,
+    offeredSlotId: timeSlot.id,
+    offerExpiresAt,
+  }));
+};
+
+// Offers nobody claimed in time move on to the next athlete in line
+const expireStaleOffers = async (timeSlotId?: string) => {
+  const stale = await prisma.waitlistEntry.findMany({
+    where: {
+      status: WaitlistStatus.OFFERED,
+      offerExpiresAt: { lte: new Date() },
+      ...(timeSlotId && { offeredSlotId: timeSlotId }),
+    },
+  });
+
+  for (const entry of stale) {
+    // Skipped when the offer was claimed or left in the meantime
+    const { count } = await prisma.waitlistEntry.updateMany({
+      where: { id: entry.id, status: WaitlistStatus.OFFERED },
+      data: { status: WaitlistStatus.EXPIRED },
+    });
+    if (count && entry.offeredSlotId) {
+      await offerFreedSlot(entry.offeredSlotId);
+    }
+  }
+
+  return stale.length;
+};
+
+// Runs in the booking transaction, once the new booking holds its seat. The
+// athlete's own live offer is claimed with a conditional write, so two
+// bookings cannot both use it; nobody may take a seat reserved for someone
+// else's offer.
+const claimLiveOffer = async (
+  tx: Prisma.TransactionClient,
+  timeSlotId: string,
+  athleteId: string,
+  bookingId: string,
+) => {
+  const offer = await tx.waitlistEntry.findFirst({
+    where: { offeredSlotId: timeSlotId, athleteId, ...liveOfferWhere() },
+  });
+  if (offer) {
+    const { count } = await tx.waitlistEntry.updateMany({
+      where: { id: offer.id, ...liveOfferWhere() },
+      data: { status: WaitlistStatus.CLAIMED, bookingId },
+    });
+    if (!count) {
+      throw new AppError(
+        httpStatus.CONFLICT,
+        'This waitlist offer has already been used',
+      );
+    }
+  }
+
+  const { capacity, takenSeats, reservedSeats } = await getSeatUse(
+    tx,
+    timeSlotId,
+    athleteId,
+  );
+  if (takenSeats + reservedSeats > capacity) {
+    throw new AppError(
+      httpStatus.CONFLICT,
+      'This time slot is reserved for a waitlisted athlete. Join the waitlist to be offered it if it frees up',
+    );
+  }
+
+  return offer;
+};
+
+const getMyWaitlist = async (athleteMail: string) => {
+  const athlete = await getAthleteByMail(athleteMail);
+  await expireStaleOffers();
+
+  const entries = await prisma.waitlistEntry.findMany({
+    where: {
+      athleteId: athlete.id,
+      status: { in: OPEN_WAITLIST_STATUSES },
+    },
+    include: {
+      coach: { select: { id: true, fullName: true, profile: true } },
+      timeSlot: { select: { id: true, startTime: true, endTime: true } },
+      offeredSlot: { select: { id: true, startTime: true, endTime: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return Promise.all(
+    entries.map(async entry => ({
+      ...entry,
+      position:
+        entry.status === WaitlistStatus.WAITING
+          ? await getPosition(entry)
+          : null,
+    })),
+  );
+};
+
+// Leaving while holding an offer passes the slot on right away
+const leaveWaitlist = async (athleteMail: string, entryId: string) => {
+  const athlete = await getAthleteByMail(athleteMail);
+
+  const entry = await prisma.waitlistEntry.findUnique({
+    where: { id: entryId },
+  });
+  if (!entry || entry.athleteId !== athlete.id) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Waitlist entry not found');
+  }
+  if (!OPEN_WAITLIST_STATUSES.includes(entry.status)) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'You already left this waitlist',
+    );
+  }
+
+  const cancelled = await prisma.waitlistEntry.update({
+    where: { id: entryId },
+    data: { status: WaitlistStatus.CANCELLED },
+  });
+
+  if (entry.status === WaitlistStatus.OFFERED && entry.offeredSlotId) {
+    await offerFreedSlot(entry.offeredSlotId);
+  }
+
+  return cancelled;
+};
+
+export const WaitlistServices = {
+  joinWaitlist,
+  offerFreedSlot,
+  expireStaleOffers,
+  getSeatUse,
+  claimLiveOffer,
+  getMyWaitlist,
+  leaveWaitlist,
+};
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+const joinWaitlistZodSchema = z.object({
+  body: z
+    .object({
+      timeSlotId: z.string().optional(),
+      coachId: z.string().optional(),
+      slotDate: z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+        .optional(),
+    })
+    .refine(body => body.timeSlotId || (body.coachId && body.slotDate), {
+      message: 'Provide timeSlotId, or coachId and slotDate',
+    }),
+});
+
+export const WaitlistValidation = {
+  joinWaitlistZodSchema,
+};
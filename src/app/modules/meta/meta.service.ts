@@ -2,8 +2,15 @@ import { Request } from 'express';
 import { prisma } from '../../utils/prisma';
 import AppError from '../../errors/AppError';
 import httpStatus from 'http-status';
-import { BookingStatus } from '@prisma/client';
 import { getDateRange } from './dateHelpers';
+import { PayoutServices } from '../Payout/Payout.service';
+import {
+  formatTimeInZone,
+  resolveTimeZone,
+  toZonedCalendarDate,
+  zonedTimeToUtc,
+} from '../../utils/timezone';
+import { addDays } from '../Schedule/Schedule.constants';
 
 interface MonthlyData {
   labels: string[];
@@ -279,14 +286,9 @@ const getHomePageData = async (coachMail: string) => {
   }
   // now show coach data
 
-  // Total Revenue: number of completed bookings * coach price
-  const completedBookingsCount = await prisma.booking.count({
-    where: {
-      coachId: coach.id,
-      status: BookingStatus.FINISHED,
-    },
-  });
-  const totalRevenue = completedBookingsCount * (coach.price || 0);
+  // Total Revenue: real earnings from the payout ledger (after platform fee)
+  const earnings = await PayoutServices.getEarningsSummary(coach.id);
+  const totalRevenue = earnings.totalEarned;
 
   // Total Students (unique athletes)
   const uniqueAthletes = await prisma.booking.groupBy({
@@ -326,11 +328,13 @@ const getHomePageData = async (coachMail: string) => {
     return sum + 60;
   }, 0);
 
-  // Today's Sessions
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const todayEnd = new Date();
-  todayEnd.setHours(23, 59, 59, 999);
+  // Today's Sessions (today in the coach's zone)
+  const coachTimeZone = resolveTimeZone(coach.timezone);
+  const todayDate = toZonedCalendarDate(new Date(), coachTimeZone);
+  const today = zonedTimeToUtc(todayDate, '00:00', coachTimeZone);
+  const todayEnd = new Date(
+    zonedTimeToUtc(addDays(todayDate, 1), '00:00', coachTimeZone).getTime() - 1,
+  );
 
   const todaysSessions = await prisma.booking.findMany({
     where: {
@@ -360,11 +364,7 @@ const getHomePageData = async (coachMail: string) => {
   // Helper function to format time
   const formatTimeRange = (startTime: Date, endTime: Date): string => {
     const formatTime = (date: Date): string => {
-      return date.toLocaleTimeString('en-US', {
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true,
-      });
+      return formatTimeInZone(date, coachTimeZone);
     };
     return `${formatTime(startTime)} - ${formatTime(endTime)}`;
   };
@@ -375,7 +375,7 @@ const getHomePageData = async (coachMail: string) => {
     athlete: booking.athlete,
     sessionType: `${coach.specialty.title} Session`,
     price: coach.price || 0,
-    date: booking.bookingDate.toISOString().split('T')[0],
+    date: todayDate.toISOString().split('T')[0],
     time: booking.timeSlot
       ? formatTimeRange(booking.timeSlot.startTime, booking.timeSlot.endTime)
       : '11:00 AM - 12:00 PM',
@@ -384,10 +384,13 @@ const getHomePageData = async (coachMail: string) => {
 
   return {
     totalRevenue,
+    transferredRevenue: earnings.transferred,
+    pendingRevenue: earnings.pending,
     totalStudents,
     sessionTime,
     completedClasses,
     todaysSessions: formattedSessions,
+    timezone: coachTimeZone,
   };
 };
 
@@ -2,6 +2,7 @@ import express from 'express';
 import { AuthRouters } from '../modules/Auth/Auth.routes';
 import { UserRouters } from '../modules/User/user.routes';
 import { PaymentRoutes } from '../modules/Payment/payment.route';
+import { PayoutRoutes } from '../modules/Payout/Payout.routes';
 import { SpecialtyRoutes } from '../modules/Specialty/Specialty.routes';
 import { BannerRoutes } from '../modules/banner/banner.routes';
 import { SubscriptionRoutes } from '../modules/Subscription/Subscription.routes';
@@ -10,6 +11,9 @@ import { ScheduleRoutes } from '../modules/Schedule/Schedule.routes';
 import { CoachRoutes } from '../modules/Coach/Coach.routes';
 import { ReportRoutes } from '../modules/Report/Report.routes';
 import { BookingRoutes } from '../modules/Booking/Booking.routes';
+import { WaitlistRoutes } from '../modules/Waitlist/Waitlist.routes';
+import { PackageRoutes } from '../modules/Package/Package.routes';
+import { BoostRoutes } from '../modules/Boost/Boost.routes';
 import { ReviewRoutes } from '../modules/Review/Review.routes';
 import { MetaRoutes } from '../modules/meta/meta.routes';
 import { notificationsRoute } from '../modules/Notifications/Notification.routes';
@@ -30,6 +34,10 @@ const moduleRoutes = [
     path: '/payment',
     route: PaymentRoutes,
   },
+  {
+    path: '/payout',
+    route: PayoutRoutes,
+  },
 
   {
     path: '/notifications',
@@ -67,6 +75,18 @@ const moduleRoutes = [
     path: '/booking',
     route: BookingRoutes,
   },
+  {
+    path: '/waitlist',
+    route: WaitlistRoutes,
+  },
+  {
+    path: '/package',
+    route: PackageRoutes,
+  },
+  {
+    path: '/boost',
+    route: BoostRoutes,
+  },
   {
     path: '/review',
     route: ReviewRoutes,
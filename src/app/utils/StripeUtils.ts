@@ -8,6 +8,10 @@ import { prisma } from './prisma';
 import { stripe } from './stripe';
 import { PaymentStatus, SubscriptionType } from '@prisma/client';
 import { notificationServices } from '../modules/Notifications/Notification.service';
+import { BookingServices } from '../modules/Booking/Booking.service';
+import { PayoutServices } from '../modules/Payout/Payout.service';
+import { PackageServices } from '../modules/Package/Package.service';
+import { BoostServices } from '../modules/Boost/Boost.service';
 
 // ----------------------
 // 🔥 Stripe Webhook Entry
@@ -134,9 +138,11 @@ const StripeHook = async (
           },
         });
 
-        const subscription = await prisma.subscription.findUnique({
-          where: { id: existingPayment.subscriptionId },
-        });
+        const subscription = existingPayment.subscriptionId
+          ? await prisma.subscription.findUnique({
+              where: { id: existingPayment.subscriptionId },
+            })
+          : null;
 
         if (subscription) {
           const startDate = new Date();
@@ -199,6 +205,20 @@ const StripeHook = async (
           where: { id: payment.id },
           data: { status: PaymentStatus.FAILED },
         });
+        if (payment.bookingId) {
+          await BookingServices.releaseHeldBooking(payment.bookingId);
+        }
+        if (payment.seriesId) {
+          await BookingServices.releaseHeldSeries(payment.seriesId);
+        }
+        if (payment.packagePurchaseId) {
+          await PackageServices.cancelPendingPurchase(
+            payment.packagePurchaseId,
+          );
+        }
+        if (payment.boostId) {
+          await BoostServices.cancelPendingBoost(payment.boostId);
+        }
       } else {
         console.log('Payment failed but no payment record found.');
       }
@@ -223,6 +243,33 @@ const StripeHook = async (
       break;
     }
 
+    // -------------------------------
+    // ↩️ Charge Refunded (cancellations not saved after their refund)
+    // -------------------------------
+    case 'charge.refunded': {
+      const charge = event.data.object as Stripe.Charge;
+      await BookingServices.reconcileRefundedCharge(charge.id);
+      break;
+    }
+
+    // -------------------------------
+    // 🏦 Connected Account Updated (coach onboarding)
+    // -------------------------------
+    case 'account.updated': {
+      const account = event.data.object as Stripe.Account;
+      await PayoutServices.syncConnectAccount(account);
+      break;
+    }
+
+    // -------------------------------
+    // ↩️ Coach Transfer Reversed
+    // -------------------------------
+    case 'transfer.reversed': {
+      const transfer = event.data.object as Stripe.Transfer;
+      await PayoutServices.markTransferReversed(transfer);
+      break;
+    }
+
     // -------------------------------
     // 💤 Default
     // -------------------------------
@@ -243,6 +290,15 @@ const handleCheckoutSessionCompleted = async (
   const paymentId = session.metadata?.paymentId;
   if (!paymentId) return;
 
+  // A retry must not mark a payment refunded by the first delivery as paid again
+  const current = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    select: { status: true },
+  });
+  const isRefunded =
+    current?.status === PaymentStatus.REFUNDED ||
+    current?.status === PaymentStatus.PARTIALLY_REFUNDED;
+
   await prisma.payment.update({
     where: { id: paymentId },
     data: {
@@ -255,13 +311,38 @@ const handleCheckoutSessionCompleted = async (
         session.payment_intent && {
           stripePaymentId: session.payment_intent as string,
         }),
-      status:
-        session.mode === 'payment'
+      status: isRefunded
+        ? current.status
+        : session.mode === 'payment'
           ? PaymentStatus.SUCCESS
           : PaymentStatus.PENDING,
     },
   });
 
+  // Athlete session payment → confirm the held booking
+  const bookingId = session.metadata?.bookingId;
+  if (bookingId && session.mode === 'payment') {
+    await BookingServices.confirmPaidBooking(bookingId);
+  }
+
+  // Weekly series payment → confirm every held occurrence
+  const seriesId = session.metadata?.seriesId;
+  if (seriesId && session.mode === 'payment') {
+    await BookingServices.confirmPaidSeries(seriesId);
+  }
+
+  // Athlete package payment → grant the session credits
+  const packagePurchaseId = session.metadata?.packagePurchaseId;
+  if (packagePurchaseId && session.mode === 'payment') {
+    await PackageServices.activatePurchase(packagePurchaseId);
+  }
+
+  // Coach boost payment → start the featured placement
+  const boostId = session.metadata?.boostId;
+  if (boostId && session.mode === 'payment') {
+    await BoostServices.activateBoost(boostId);
+  }
+
   return prisma.payment.findUnique({ where: { id: paymentId } });
 };
 
@@ -282,5 +363,26 @@ const handleCheckoutSessionCanceled = async (
     },
   });
 
+  // Athlete never paid → give the slot back
+  const bookingId = session.metadata?.bookingId;
+  if (bookingId) {
+    await BookingServices.releaseHeldBooking(bookingId);
+  }
+
+  const seriesId = session.metadata?.seriesId;
+  if (seriesId) {
+    await BookingServices.releaseHeldSeries(seriesId);
+  }
+
+  const packagePurchaseId = session.metadata?.packagePurchaseId;
+  if (packagePurchaseId) {
+    await PackageServices.cancelPendingPurchase(packagePurchaseId);
+  }
+
+  const boostId = session.metadata?.boostId;
+  if (boostId) {
+    await BoostServices.cancelPendingBoost(boostId);
+  }
+
   return prisma.payment.findUnique({ where: { id: paymentId } });
 };
@@ -0,0 +1,235 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildCalendar, parseBusyBlocks, TCalendarEvent } from './ics';
+
+const calendar = (...events: string[][]) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...events.flatMap(event => ['BEGIN:VEVENT', ...event, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+const starts = (ics: string, from: string, to: string, timeZone = 'UTC') =>
+  parseBusyBlocks(ics, new Date(from), new Date(to), timeZone).map(block =>
+    block.startAt.toISOString(),
+  );
+
+describe('buildCalendar', () => {
+  const event: TCalendarEvent = {
+    uid: 'booking-1@coaching',
+    start: new Date('2025-03-04T10:00:00.000Z'),
+    end: new Date('2025-03-04T11:00:00.000Z'),
+    summary: 'Tennis; with Anna, court 2',
+    description: null,
+    location: 'Main St\n12',
+    status: 'CONFIRMED',
+    sequence: 2,
+    updatedAt: new Date('2025-03-01T08:30:15.123Z'),
+  };
+
+  it('writes one event per booking with CRLF line endings', () => {
+    const ics = buildCalendar([event], { name: 'My sessions' });
+    const lines = ics.split('\r\n');
+
+    assert.equal(lines[0], 'BEGIN:VCALENDAR');
+    assert.ok(ics.endsWith('END:VCALENDAR\r\n'));
+    assert.ok(lines.includes('METHOD:PUBLISH'));
+    assert.ok(lines.includes('X-WR-CALNAME:My sessions'));
+    assert.ok(lines.includes('DTSTART:20250304T100000Z'));
+    assert.ok(lines.includes('DTEND:20250304T110000Z'));
+    assert.ok(lines.includes('DTSTAMP:20250301T083015Z'));
+    assert.ok(lines.includes('SEQUENCE:2'));
+  });
+
+  it('escapes text and leaves out empty fields', () => {
+    const lines = buildCalendar([event]).split('\r\n');
+
+    assert.ok(lines.includes('SUMMARY:Tennis\\; with Anna\\, court 2'));
+    assert.ok(lines.includes('LOCATION:Main St\\n12'));
+    assert.ok(!lines.some(line => line.startsWith('DESCRIPTION')));
+    assert.ok(!lines.some(line => line.startsWith('X-WR-CALNAME')));
+  });
+
+  it('folds lines longer than 75 octets', () => {
+    const ics = buildCalendar([{ ...event, summary: 'Ü'.repeat(60) }]);
+    const lines = ics.split('\r\n');
+
+    assert.ok(lines.every(line => Buffer.byteLength(line) <= 75));
+    assert.ok(ics.replace(/\r\n /g, '').includes(`SUMMARY:${'Ü'.repeat(60)}`));
+  });
+});
+
+describe('parseBusyBlocks', () => {
+  it('reads single events in their own zone', () => {
+    const ics = calendar([
+      'UID:1',
+      'DTSTART;TZID=Europe/Berlin:20250304T100000',
+      'DTEND;TZID=Europe/Berlin:20250304T113000',
+      'SUMMARY:Dentist\\, downtown',
+    ]);
+
+    assert.deepEqual(
+      parseBusyBlocks(
+        ics,
+        new Date('2025-03-01T00:00:00Z'),
+        new Date('2025-03-08T00:00:00Z'),
+        'UTC',
+      ),
+      [
+        {
+          startAt: new Date('2025-03-04T09:00:00Z'),
+          endAt: new Date('2025-03-04T10:30:00Z'),
+          summary: 'Dentist, downtown',
+        },
+      ],
+    );
+  });
+
+  it('skips free and cancelled events', () => {
+    const ics = calendar(
+      [
+        'UID:1',
+        'DTSTART:20250304T100000Z',
+        'DTEND:20250304T110000Z',
+        'TRANSP:TRANSPARENT',
+      ],
+      [
+        'UID:2',
+        'DTSTART:20250305T100000Z',
+        'DTEND:20250305T110000Z',
+        'STATUS:CANCELLED',
+      ],
+    );
+
+    assert.deepEqual(starts(ics, '2025-03-01', '2025-03-08'), []);
+  });
+
+  it('uses DURATION when there is no DTEND, and ignores negative ones', () => {
+    const ics = calendar(
+      ['UID:1', 'DTSTART:20250304T100000Z', 'DURATION:PT1H30M'],
+      ['UID:2', 'DTSTART:20250305T100000Z', 'DURATION:-PT1H'],
+    );
+    const blocks = parseBusyBlocks(
+      ics,
+      new Date('2025-03-01T00:00:00Z'),
+      new Date('2025-03-08T00:00:00Z'),
+      'UTC',
+    );
+
+    assert.equal(blocks.length, 1);
+    assert.equal(blocks[0].endAt.toISOString(), '2025-03-04T11:30:00.000Z');
+  });
+
+  it('expands rules that started years before the window', () => {
+    const daily = calendar([
+      'UID:1',
+      'DTSTART:20210104T070000Z',
+      'DTEND:20210104T080000Z',
+      'RRULE:FREQ=DAILY',
+    ]);
+    const weekdays = calendar([
+      'UID:2',
+      'DTSTART:20210104T070000Z',
+      'DTEND:20210104T080000Z',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR',
+    ]);
+
+    assert.equal(starts(daily, '2025-06-02', '2025-06-09').length, 7);
+    assert.deepEqual(starts(weekdays, '2025-06-02', '2025-06-09'), [
+      '2025-06-02T07:00:00.000Z',
+      '2025-06-04T07:00:00.000Z',
+      '2025-06-06T07:00:00.000Z',
+    ]);
+  });
+
+  it('counts occurrences before the window towards COUNT', () => {
+    const ics = calendar([
+      'UID:1',
+      'DTSTART:20250101T070000Z',
+      'DTEND:20250101T080000Z',
+      'RRULE:FREQ=DAILY;COUNT=10',
+    ]);
+    const weekly = calendar([
+      'UID:2',
+      'DTSTART:20250101T070000Z',
+      'DTEND:20250101T080000Z',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=5',
+    ]);
+
+    assert.equal(starts(ics, '2025-01-05', '2025-01-31').length, 6);
+    // Wed 1st, Mon 6th, Wed 8th, Mon 13th, Wed 15th
+    assert.deepEqual(starts(weekly, '2025-01-10', '2025-01-31'), [
+      '2025-01-13T07:00:00.000Z',
+      '2025-01-15T07:00:00.000Z',
+    ]);
+  });
+
+  it('keeps the local hour of recurrences across daylight saving', () => {
+    const ics = calendar([
+      'UID:1',
+      'DTSTART;TZID=America/New_York:20250303T090000',
+      'DTEND;TZID=America/New_York:20250303T100000',
+      'RRULE:FREQ=WEEKLY;UNTIL=20250317T235959Z',
+    ]);
+
+    assert.deepEqual(starts(ics, '2025-03-01', '2025-04-01'), [
+      '2025-03-03T14:00:00.000Z',
+      '2025-03-10T13:00:00.000Z',
+      '2025-03-17T13:00:00.000Z',
+    ]);
+  });
+
+  it('leaves out excluded dates and replaces moved instances', () => {
+    const ics = calendar(
+      [
+        'UID:1',
+        'DTSTART:20250303T070000Z',
+        'DTEND:20250303T080000Z',
+        'RRULE:FREQ=DAILY;COUNT=4',
+        'EXDATE:20250304T070000Z',
+      ],
+      [
+        'UID:1',
+        'RECURRENCE-ID:20250305T070000Z',
+        'DTSTART:20250305T120000Z',
+        'DTEND:20250305T130000Z',
+      ],
+    );
+
+    assert.deepEqual(starts(ics, '2025-03-01', '2025-03-08'), [
+      '2025-03-03T07:00:00.000Z',
+      '2025-03-05T12:00:00.000Z',
+      '2025-03-06T07:00:00.000Z',
+    ]);
+  });
+
+  it('reads EXDATE times in their own zone and date-only ones as whole days', () => {
+    const ics = calendar([
+      'UID:1',
+      'DTSTART;TZID=Europe/Berlin:20250303T080000',
+      'DTEND;TZID=Europe/Berlin:20250303T090000',
+      'RRULE:FREQ=DAILY;COUNT=4',
+      'EXDATE:20250304T070000Z',
+      'EXDATE;VALUE=DATE:20250305',
+      'EXDATE;TZID=Europe/Berlin:20250306T100000',
+    ]);
+
+    assert.deepEqual(starts(ics, '2025-03-01', '2025-03-08'), [
+      '2025-03-03T07:00:00.000Z',
+      '2025-03-06T07:00:00.000Z',
+    ]);
+  });
+
+  it('includes events that started before the window but overlap it', () => {
+    const ics = calendar([
+      'UID:1',
+      'DTSTART:20250228T220000Z',
+      'DTEND:20250301T020000Z',
+    ]);
+
+    assert.deepEqual(starts(ics, '2025-03-01', '2025-03-08'), [
+      '2025-02-28T22:00:00.000Z',
+    ]);
+  });
+});
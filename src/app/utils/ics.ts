@@ -0,0 +1,371 @@
+import { resolveTimeZone, zonedTimeToUtc } from './timezone';
+
+// Minimal iCalendar (RFC 5545) writer for booking exports and feeds,
+// and a reader for the busy times of imported calendars
+
+export type TCalendarEvent = {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  status: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  // Bumped whenever the event changes so calendar apps replace their copy
+  sequence: number;
+  updatedAt: Date;
+};
+
+// 20250304T100000Z
+const formatIcsDate = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+const escapeIcsText = (text: string) =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string) => {
+  const chunks: string[] = [];
+  let rest = line;
+  while (Buffer.byteLength(rest) > 75) {
+    let cut = 75;
+    while (Buffer.byteLength(rest.slice(0, cut)) > 75) cut--;
+    chunks.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  chunks.push(rest);
+  return chunks.join('\r\n ');
+};
+
+const buildEvent = (event: TCalendarEvent) =>
+  [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(event.updatedAt)}`,
+    `LAST-MODIFIED:${formatIcsDate(event.updatedAt)}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    event.description && `DESCRIPTION:${escapeIcsText(event.description)}`,
+    event.location && `LOCATION:${escapeIcsText(event.location)}`,
+    `STATUS:${event.status}`,
+    `SEQUENCE:${event.sequence}`,
+    'END:VEVENT',
+  ].filter(Boolean) as string[];
+
+export const buildCalendar = (
+  events: TCalendarEvent[],
+  options: { name?: string; method?: 'PUBLISH' | 'REQUEST' } = {},
+) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Coaching Platform//Bookings//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${options.method ?? 'PUBLISH'}`,
+    options.name && `X-WR-CALNAME:${escapeIcsText(options.name)}`,
+    ...events.flatMap(buildEvent),
+    'END:VCALENDAR',
+  ]
+    .filter(Boolean)
+    .map(line => foldLine(line as string))
+    .join('\r\n') + '\r\n';
+
+// ---------------------------------------------------------------------------
+// Reading: busy times out of an external calendar (Google, Apple, Outlook)
+// ---------------------------------------------------------------------------
+
+export type TBusyBlock = {
+  startAt: Date;
+  endAt: Date;
+  summary: string | null;
+};
+
+type TIcsProperty = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+// Wall-clock start of an event, so recurrences keep their hour across DST
+type TLocalStart = {
+  date: Date; // UTC midnight key of the local calendar date
+  time: string; // "HH:mm"
+  timeZone: string;
+  allDay: boolean;
+};
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MAX_OCCURRENCES = 1000;
+
+const parseProperty = (line: string): TIcsProperty | null => {
+  const colon = line.indexOf(':');
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, value = ''] = param.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const parseLocalStart = (
+  property: TIcsProperty,
+  defaultTimeZone: string,
+): TLocalStart | null => {
+  const match = property.value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/,
+  );
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, , utc] = match;
+  const date = new Date(Date.UTC(+year, +month - 1, +day));
+  if (!hour) {
+    return { date, time: '00:00', timeZone: defaultTimeZone, allDay: true };
+  }
+
+  const time = `${hour}:${minute}`;
+  if (utc) return { date, time, timeZone: 'UTC', allDay: false };
+
+  const timeZone = resolveTimeZone(property.params.TZID, defaultTimeZone);
+  return { date, time, timeZone, allDay: false };
+};
+
+const toInstant = (start: TLocalStart) =>
+  zonedTimeToUtc(start.date, start.time, start.timeZone);
+
+// PT1H30M, P1D, P1W
+const parseDurationMs = (value: string) => {
+  const match = value.match(
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/,
+  );
+  if (!match) return null;
+  const [, sign, ...parts] = match;
+  const [weeks, days, hours, minutes, seconds] = parts.map(
+    part => Number(part) || 0,
+  );
+  const ms =
+    (weeks * 7 * 86400 + days * 86400 + hours * 3600 + minutes * 60 + seconds) *
+    1000;
+  return sign === '-' ? -ms : ms;
+};
+
+const addCalendarDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * 86400000);
+
+// Local start dates of the occurrences of a (possibly recurring) event from
+// `from` to `until`. COUNT still counts the occurrences before `from`.
+const expandRecurrence = (
+  start: TLocalStart,
+  rrule: string | undefined,
+  from: Date,
+  until: Date,
+) => {
+  if (!rrule) return [start.date];
+
+  const rule: Record<string, string> = {};
+  rrule.split(';').forEach(part => {
+    const [key, value] = part.split('=');
+    rule[key.toUpperCase()] = value;
+  });
+
+  const interval = Math.max(Number(rule.INTERVAL) || 1, 1);
+  const count = Number(rule.COUNT) || Infinity;
+  const ruleUntil = rule.UNTIL
+    ? parseLocalStart(
+        { name: 'UNTIL', params: {}, value: rule.UNTIL },
+        start.timeZone,
+      )
+    : null;
+  const lastDate = ruleUntil
+    ? Math.min(ruleUntil.date.getTime(), until.getTime())
+    : until.getTime();
+
+  const byDay = (rule.BYDAY ?? '')
+    .split(',')
+    .map(day => WEEKDAYS.indexOf(day.replace(/^[+-]?\d+/, '')))
+    .filter(day => day >= 0);
+  const weekDays = [...(byDay.length ? byDay : [start.date.getUTCDay()])].sort(
+    (a, b) => a - b,
+  );
+
+  const dates: Date[] = [];
+  let seen = 0; // Occurrences since DTSTART, for COUNT
+  const isDone = () => seen >= count || dates.length >= MAX_OCCURRENCES;
+  const push = (date: Date) => {
+    if (date.getTime() < start.date.getTime()) return;
+    seen++;
+    if (date.getTime() >= from.getTime()) dates.push(date);
+  };
+
+  // Daily and weekly rules jump straight to the period before `from`,
+  // adding the occurrences they skip to the count
+  let step = 0;
+  const periodDays =
+    rule.FREQ === 'DAILY'
+      ? interval
+      : rule.FREQ === 'WEEKLY'
+        ? interval * 7
+        : 0;
+  const skipped = periodDays
+    ? Math.max(
+        Math.floor(
+          (from.getTime() - start.date.getTime()) / (periodDays * 86400000),
+        ) - 1,
+        0,
+      )
+    : 0;
+  if (skipped) {
+    step = skipped * interval;
+    seen =
+      rule.FREQ === 'DAILY'
+        ? skipped
+        : skipped * weekDays.length -
+          weekDays.filter(day => day < start.date.getUTCDay()).length;
+  }
+
+  for (; !isDone(); step += interval) {
+    if (rule.FREQ === 'DAILY') {
+      const date = addCalendarDays(start.date, step);
+      if (date.getTime() > lastDate) break;
+      push(date);
+    } else if (rule.FREQ === 'WEEKLY') {
+      const weekStart = addCalendarDays(
+        start.date,
+        step * 7 - start.date.getUTCDay(),
+      );
+      if (weekStart.getTime() > lastDate) break;
+      weekDays.forEach(day => {
+        const date = addCalendarDays(weekStart, day);
+        if (date.getTime() <= lastDate && !isDone()) push(date);
+      });
+    } else if (rule.FREQ === 'MONTHLY') {
+      const date = new Date(start.date);
+      date.setUTCMonth(date.getUTCMonth() + step);
+      if (date.getTime() > lastDate) break;
+      // Skip months without that day (e.g. the 31st)
+      if (date.getUTCDate() === start.date.getUTCDate()) push(date);
+    } else {
+      // Yearly and rarer rules: only the first occurrence is considered
+      push(start.date);
+      break;
+    }
+  }
+
+  return dates;
+};
+
+// Busy blocks between `from` and `to`. Free (TRANSPARENT) and cancelled
+// events are skipped; floating and all-day times use `defaultTimeZone`.
+export const parseBusyBlocks = (
+  ics: string,
+  from: Date,
+  to: Date,
+  defaultTimeZone: string,
+): TBusyBlock[] => {
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  const events: TIcsProperty[][] = [];
+  let current: TIcsProperty[] | null = null;
+  let nested = 0;
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = [];
+    } else if (line === 'END:VEVENT') {
+      if (current) events.push(current);
+      current = null;
+    } else if (current && line.startsWith('BEGIN:')) {
+      nested++;
+    } else if (current && line.startsWith('END:')) {
+      nested--;
+    } else if (current && nested === 0) {
+      const property = parseProperty(line);
+      if (property) current.push(property);
+    }
+  }
+
+  // Moved or edited instances of a recurring event replace the original one
+  const overridden = new Map<string, Set<number>>();
+  events.forEach(event => {
+    const uid = event.find(p => p.name === 'UID')?.value;
+    const recurrenceId = event.find(p => p.name === 'RECURRENCE-ID');
+    const start =
+      recurrenceId && parseLocalStart(recurrenceId, defaultTimeZone);
+    if (uid && start) {
+      const set = overridden.get(uid) ?? new Set<number>();
+      set.add(toInstant(start).getTime());
+      overridden.set(uid, set);
+    }
+  });
+
+  const blocks: TBusyBlock[] = [];
+  for (const event of events) {
+    const get = (name: string) => event.find(p => p.name === name);
+    if (get('STATUS')?.value.toUpperCase() === 'CANCELLED') continue;
+    if (get('TRANSP')?.value.toUpperCase() === 'TRANSPARENT') continue;
+
+    const dtStart = get('DTSTART');
+    const start = dtStart && parseLocalStart(dtStart, defaultTimeZone);
+    if (!start) continue;
+
+    const dtEnd = get('DTEND');
+    const end = dtEnd && parseLocalStart(dtEnd, defaultTimeZone);
+    const duration = get('DURATION');
+    const firstStart = toInstant(start);
+    const durationMs = end
+      ? toInstant(end).getTime() - firstStart.getTime()
+      : duration
+        ? parseDurationMs(duration.value)
+        : start.allDay
+          ? 86400000
+          : 0;
+    if (!durationMs || durationMs <= 0) continue;
+
+    const uid = get('UID')?.value;
+    const isOverride = !!get('RECURRENCE-ID');
+    const excluded = new Set<number>(
+      isOverride || !uid ? [] : overridden.get(uid),
+    );
+    event
+      .filter(p => p.name === 'EXDATE')
+      .forEach(p =>
+        p.value.split(',').forEach(value => {
+          const exdate = parseLocalStart({ ...p, value }, start.timeZone);
+          if (exdate) {
+            // A date-only EXDATE drops that day's occurrence at its usual time
+            const instant = exdate.allDay
+              ? { ...exdate, time: start.time, timeZone: start.timeZone }
+              : exdate;
+            excluded.add(toInstant(instant).getTime());
+          }
+        }),
+      );
+
+    const summary = get('SUMMARY')?.value.replace(/\\([,;\\])/g, '$1') ?? null;
+    const rrule = isOverride ? undefined : get('RRULE')?.value;
+
+    // Occurrences that start shortly before `from` may still overlap it
+    const windowStart = new Date(from.getTime() - durationMs - 2 * 86400000);
+    for (const date of expandRecurrence(start, rrule, windowStart, to)) {
+      const startAt = toInstant({ ...start, date });
+      if (excluded.has(startAt.getTime())) continue;
+
+      const endAt = new Date(startAt.getTime() + durationMs);
+      if (endAt > from && startAt < to) {
+        blocks.push({ startAt, endAt, summary });
+      }
+    }
+  }
+
+  return blocks.sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+};
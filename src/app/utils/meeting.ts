@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import config from '../../config';
+
+// Video rooms for online sessions. Providers plug in behind one interface;
+// the default ("local") is a self-hosted Jitsi Meet server with JWT auth.
+
+export type TMeetingRoom = {
+  provider: string;
+  roomId: string;
+  url: string;
+};
+
+export type TMeetingParticipant = {
+  id: string;
+  name: string;
+  isHost: boolean; // Coach: may moderate the room
+};
+
+type TMeetingProvider = {
+  createRoom: (session: {
+    startsAt: Date;
+    endsAt: Date;
+  }) => Promise<TMeetingRoom>;
+  // Token that lets one participant into one room until `expiresAt`
+  createJoinToken: (
+    room: TMeetingRoom,
+    participant: TMeetingParticipant,
+    expiresAt: Date,
+  ) => string;
+};
+
+const localProvider: TMeetingProvider = {
+  createRoom: async () => {
+    // Unguessable, so the room cannot be found without the link
+    const roomId = crypto.randomBytes(12).toString('hex');
+    return {
+      provider: 'local',
+      roomId,
+      url: `${config.meeting.base_url.replace(/\/$/, '')}/${roomId}`,
+    };
+  },
+  createJoinToken: (room, participant, expiresAt) => {
+    const secret = config.meeting.app_secret;
+    if (!secret) throw new Error('MEETING_APP_SECRET is not set');
+
+    return jwt.sign(
+      {
+        aud: config.meeting.app_id,
+        iss: config.meeting.app_id,
+        sub: new URL(room.url).hostname,
+        room: room.roomId,
+        exp: Math.floor(expiresAt.getTime() / 1000),
+        context: {
+          user: {
+            id: participant.id,
+            name: participant.name,
+            moderator: participant.isHost,
+          },
+        },
+      },
+      secret,
+      { algorithm: 'HS256' },
+    );
+  },
+};
+
+const providers: Record<string, TMeetingProvider> = {
+  local: localProvider,
+};
+
+const getProvider = (name: string) => {
+  const provider = providers[name];
+  if (!provider) throw new Error(`Unknown meeting provider "${name}"`);
+  return provider;
+};
+
+export const createMeetingRoom = (session: { startsAt: Date; endsAt: Date }) =>
+  getProvider(config.meeting.provider).createRoom(session);
+
+// Rooms keep the provider that created them, even if the default changes
+export const createMeetingJoinLink = (
+  room: TMeetingRoom,
+  participant: TMeetingParticipant,
+  expiresAt: Date,
+) => {
+  const token = getProvider(room.provider).createJoinToken(
+    room,
+    participant,
+    expiresAt,
+  );
+  return { joinUrl: `${room.url}?jwt=${token}`, token };
+};
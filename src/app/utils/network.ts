@@ -0,0 +1,58 @@
+import dns from 'dns';
+import net from 'net';
+
+// Guards for requests the server makes to URLs users give it (imported
+// calendars), so they cannot be pointed at the server's own network
+
+// Loopback, private, link-local, shared, reserved and multicast ranges.
+// IPv4-mapped IPv6 addresses are matched against the IPv4 ranges.
+const privateRanges = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([network, prefix]) =>
+  privateRanges.addSubnet(network as string, prefix as number, 'ipv4'),
+);
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([network, prefix]) =>
+  privateRanges.addSubnet(network as string, prefix as number, 'ipv6'),
+);
+
+export const isPublicAddress = (address: string) => {
+  const family = net.isIP(address);
+  if (!family) return false;
+  return !privateRanges.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+// Host names resolve at connect time, so that check happens in the lookup
+// below; addresses written into the URL are checked here
+export const assertPublicHost = (hostname: string) => {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && !isPublicAddress(host)) {
+    throw new Error(`${host} is not a public address`);
+  }
+};
+
+// DNS lookup for axios that refuses names resolving to a private address
+export const publicOnlyLookup = async (hostname: string) => {
+  const addresses = await dns.promises.lookup(hostname, { all: true });
+  if (!addresses.length || !addresses.every(a => isPublicAddress(a.address))) {
+    throw new Error(`${hostname} does not resolve to a public address`);
+  }
+  return [addresses] as [typeof addresses];
+};
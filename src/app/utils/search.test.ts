@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { editDistance, matchScore, tokenize } from './search';
+
+describe('tokenize', () => {
+  it('lowercases, strips accents and splits on punctuation', () => {
+    assert.deepEqual(tokenize('Müller-Lüdenscheid'), ['muller', 'ludenscheid']);
+  });
+
+  it('drops stop words and single characters', () => {
+    assert.deepEqual(tokenize('Coach of the Year, a K9 trainer in NY'), [
+      'coach',
+      'year',
+      'k9',
+      'trainer',
+      'ny',
+    ]);
+  });
+
+  it('handles missing text', () => {
+    assert.deepEqual(tokenize(null), []);
+    assert.deepEqual(tokenize(undefined), []);
+  });
+});
+
+describe('editDistance', () => {
+  it('counts inserts, deletes and substitutions', () => {
+    assert.equal(editDistance('kitten', 'sitting', 3), 3);
+    assert.equal(editDistance('yoga', 'yoga', 2), 0);
+  });
+
+  it('counts a swap of two neighbours as one edit', () => {
+    assert.equal(editDistance('jhon', 'john', 2), 1);
+  });
+
+  it('stops at max + 1 once the distance is too large', () => {
+    assert.equal(editDistance('kitten', 'sitting', 1), 2);
+    assert.equal(editDistance('tennis', 'swimming', 2), 3);
+  });
+});
+
+describe('matchScore', () => {
+  it('scores an exact match highest', () => {
+    assert.equal(matchScore('john', 'john'), 1);
+  });
+
+  it('matches prefixes, including two-letter ones', () => {
+    assert.equal(matchScore('jo', 'john'), 0.8);
+    assert.equal(matchScore('swim', 'swimming'), 0.8);
+  });
+
+  it('allows one typo in short words and two in long ones', () => {
+    assert.equal(matchScore('jonh', 'john'), 0.6);
+    assert.equal(matchScore('basketbal', 'basketball'), 0.8);
+    assert.equal(matchScore('baskettbll', 'basketball'), 0.4);
+    assert.equal(matchScore('jahm', 'john'), 0);
+  });
+
+  it('does not guess typos for very short tokens', () => {
+    assert.equal(matchScore('jx', 'john'), 0);
+    assert.equal(matchScore('jon', 'jan'), 0);
+  });
+});
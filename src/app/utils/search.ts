@@ -0,0 +1,71 @@
+// Text helpers behind the coach search: the same tokenizer builds the
+// stored terms and splits the query, so both sides always agree
+
+// Too common to tell profiles apart
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'at',
+  'for',
+  'in',
+  'of',
+  'on',
+  'or',
+  'the',
+  'to',
+  'with',
+]);
+
+// Lowercase words without accents: "Müller-Lüdenscheid" → ["muller", "ludenscheid"]
+export const tokenize = (text?: string | null): string[] =>
+  (text ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+
+// Edit distance (insert, delete, substitute, swap two neighbours); stops
+// early and returns `max + 1` once the distance is known to exceed `max`
+export const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous2 = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// How well an indexed term matches one query token: 1 exact, less for a
+// prefix (typing in progress, so "jo" finds "john") or a typo, 0 for no match
+export const matchScore = (token: string, term: string) => {
+  if (term === token) return 1;
+  if (term.startsWith(token)) return 0.8;
+  if (token.length < 4) return 0;
+
+  // Short words allow one typo, longer ones two
+  const allowed = token.length >= 8 ? 2 : 1;
+  const distance = editDistance(token, term, allowed);
+  if (distance > allowed) return 0;
+  return distance === 1 ? 0.6 : 0.4;
+};
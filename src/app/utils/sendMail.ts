@@ -1,4 +1,4 @@
-import nodemailer from 'nodemailer';
+import nodemailer, { SendMailOptions } from 'nodemailer';
 
 export const generateOtpEmail = (otp: string) => {
   return `
@@ -31,7 +31,46 @@ export const generateOtpEmail = (otp: string) => {
       </div>`;
 };
 
-const emailSender = async (to: string, html: string, subject: string) => {
+export const generateBookingConfirmationEmail = (details: {
+  name: string;
+  withName: string;
+  sessionTime: string;
+  location?: string | null;
+}) => {
+  return `
+      <div style="font-family: Arial, sans-serif; color: #333; padding: 30px; background: linear-gradient(135deg, #6c63ff, #3f51b5); border-radius: 8px;">
+        <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; padding: 30px; border-radius: 8px;">
+            <h2 style="font-size: 28px; text-align: center; margin-bottom: 20px;">
+                <span style="color: #3f51b5;">Session Confirmed</span>
+            </h2>
+            <p style="font-size: 16px; color: #333; line-height: 1.5; text-align: center;">
+                Hi ${details.name}, your session with <strong>${details.withName}</strong> is confirmed.
+            </p>
+            <p style="font-size: 20px; font-weight: bold; color: #ff4081; text-align: center; margin: 20px 0;">
+                ${details.sessionTime}
+            </p>
+            ${details.location ? `<p style="font-size: 14px; color: #555; text-align: center;">${details.location}</p>` : ''}
+            <div style="text-align: center; margin-bottom: 20px;">
+                <p style="font-size: 14px; color: #555; margin-bottom: 10px;">
+                    Open the attached file to add the session to your calendar.
+                </p>
+            </div>
+            <div style="text-align: center; margin-top: 30px;">
+                <p style="font-size: 12px; color: #999; text-align: center;">
+                    Best Regards,<br/>
+                    <span style="font-weight: bold; color: #3f51b5;">Developer Team</span><br/>
+                </p>
+            </div>
+        </div>
+      </div>`;
+};
+
+const emailSender = async (
+  to: string,
+  html: string,
+  subject: string,
+  attachments?: SendMailOptions['attachments'],
+) => {
   try {
     const transporter = nodemailer.createTransport({
       host: 'smtp-relay.brevo.com',
@@ -48,6 +87,7 @@ const emailSender = async (to: string, html: string, subject: string) => {
       subject,
       text: html.replace(/<[^>]+>/g, ''),
       html,
+      attachments,
     };
     // Send the email
     const info = await transporter.sendMail(mailOptions);
@@ -2,9 +2,14 @@ import { Response } from 'express';
 
 type TMeta = {
   limit: number;
-  page: number;
+  page: number | null; // null when the list is paged by cursor
   total: number;
   totalPage?: number;
+  // Cursor pagination: pass nextCursor back as ?cursor= for the next page
+  nextCursor?: string | null;
+  hasMore?: boolean;
+  sortBy?: string;
+  sortOrder?: string;
 };
 
 type TResponse<T> = {
@@ -12,6 +17,8 @@ type TResponse<T> = {
   success?: boolean;
   message?: string;
   meta?: TMeta;
+  // Counts per filter value for search results (e.g. coaches per specialty)
+  facets?: Record<string, unknown>;
   
   data: T;
 };
@@ -22,6 +29,7 @@ const sendResponse = <T>(res: Response, data: TResponse<T>) => {
     statusCode: data?.statusCode,
     message: data.message,
     meta: data.meta,
+    facets: data.facets,
     data: data.data,
   });
 };
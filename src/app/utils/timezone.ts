@@ -0,0 +1,109 @@
+// Timezone helpers built on Intl, so slot math does not depend on the server's zone.
+// Calendar dates ("slotDate") are stored as UTC midnight of the coach's local date.
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export const isValidTimeZone = (timeZone?: string | null): boolean => {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const resolveTimeZone = (...candidates: (string | null | undefined)[]) =>
+  candidates.find(isValidTimeZone) ?? DEFAULT_TIMEZONE;
+
+// Wall-clock parts of an instant in the given zone
+export const getZonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) =>
+    Number(parts.find(part => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+// Offset of the zone from UTC at the given instant, in minutes
+const getOffsetMinutes = (date: Date, timeZone: string) => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return (asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000;
+};
+
+// Instant of a wall-clock time ("HH:mm") on a calendar date in the given zone
+export const zonedTimeToUtc = (
+  calendarDate: Date,
+  time: string,
+  timeZone: string,
+): Date => {
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(
+    calendarDate.getUTCFullYear(),
+    calendarDate.getUTCMonth(),
+    calendarDate.getUTCDate(),
+    hour,
+    minute,
+  );
+
+  // Two passes settle the offset around DST transitions
+  let instant =
+    wallClock - getOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+  instant = wallClock - getOffsetMinutes(new Date(instant), timeZone) * 60000;
+
+  return new Date(instant);
+};
+
+// Calendar date (UTC midnight key) an instant falls on in the given zone
+export const toZonedCalendarDate = (date: Date, timeZone: string): Date => {
+  const parts = getZonedParts(date, timeZone);
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+};
+
+// "YYYY-MM-DD" for the date an instant falls on in the given zone
+export const toZonedDateKey = (date: Date, timeZone: string): string =>
+  toZonedCalendarDate(date, timeZone).toISOString().split('T')[0];
+
+// "10:00 AM" in the given zone
+export const formatTimeInZone = (date: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  }).format(date);
+
+// "Tue, Mar 4, 2025" in the given zone
+export const formatDateInZone = (date: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  }).format(date);
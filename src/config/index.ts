@@ -30,5 +30,19 @@ export default {
     published_key: process.env.STRIPE_PUBLISHED_KEY,
     stripe_secret_key: process.env.STRIPE_SECRET_KEY,
     stripe_webhook: process.env.STRIPE_WEBHOOK,
+    platform_fee_percent: Number(process.env.PLATFORM_FEE_PERCENT ?? 10),
+  },
+  boost: {
+    daily_price: Number(process.env.BOOST_DAILY_PRICE ?? 5),
+  },
+  jobs: {
+    enabled: process.env.JOBS_ENABLED !== 'false',
+    interval_seconds: Number(process.env.JOB_INTERVAL_SECONDS ?? 60),
+  },
+  meeting: {
+    provider: process.env.MEETING_PROVIDER ?? 'local',
+    base_url: process.env.MEETING_BASE_URL ?? 'http://localhost:8443',
+    app_id: process.env.MEETING_APP_ID ?? 'coaching',
+    app_secret: process.env.MEETING_APP_SECRET,
   },
 };
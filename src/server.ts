@@ -3,6 +3,8 @@ import app from './app';
 import config from './config';
 
 import { setupWebSocket } from './app/middlewares/webSocket';
+import { startJobs, stopJobs } from './app/jobs';
+import { CoachServices } from './app/modules/Coach/Coach.service';
 // import seedSuperAdmin from './app/DB';
 
 const port = config.port || 5000;
@@ -27,6 +29,14 @@ async function main() {
     // console.log('🔌 Setting up WebSocket...');
     await setupWebSocket(server);
     // console.log('✅ WebSocket setup complete!');
+
+    // Indexes and backfills behind the coach search (not fatal if it fails)
+    await CoachServices.prepareCoachSearch().catch(error =>
+      console.error('⚠️ Coach search setup failed:', error),
+    );
+
+    // Reminders, completion flags and other scheduled work
+    startJobs();
   } catch (error) {
     console.error('❌ Failed to start server:', error);
     process.exit(1);
@@ -36,6 +46,7 @@ async function main() {
 // Graceful shutdown (improved: handle SIGINT/SIGTERM)
 const gracefulShutdown = (signal: string) => {
   console.log(`🛑 Received ${signal}. Closing server...`);
+  stopJobs();
   if (server) {
     // Null check
     server.close(err => {